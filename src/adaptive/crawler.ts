@@ -0,0 +1,78 @@
+/**
+ * Adaptive Playwright crawler implementation using Crawlee
+ * Renders pages over plain HTTP when that gives the same result as a browser,
+ * and falls back to Playwright for the pages that need JavaScript
+ *
+ * Rendering type detection runs some requests both ways, so the request handler
+ * can execute twice per page; only the chosen result's pushData/enqueueLinks calls
+ * are committed, but timings and failures are recorded for both runs.
+ * Browser launch settings and page loading apply to the pages rendered in a browser.
+ */
+
+import {
+  AdaptivePlaywrightCrawler,
+  type AdaptivePlaywrightCrawlerContext,
+  type AdaptivePlaywrightCrawlerOptions,
+  type Configuration,
+  type PlaywrightCrawlingContext,
+  type PlaywrightHook,
+} from "crawlee";
+import type { CrawlerOptions } from "../types/crawler.types.js";
+import { BaseCrawlerImpl, type CrawlerSetup, type PageContent } from "../crawlers/base-crawler.js";
+import { getHttpResponseMetadata } from "../crawlers/response-metadata.js";
+import { markNavigationEnd, markNavigationStart } from "../timing/page-timer.js";
+import { createBrowserSetup, getContextPage } from "../playwright/browser-setup.js";
+import { getPageTraffic } from "../playwright/page-load.js";
+
+type AdaptiveHook = NonNullable<AdaptivePlaywrightCrawlerOptions["preNavigationHooks"]>[number];
+
+/**
+ * Run a Playwright hook only when the page is rendered in a browser
+ */
+function inBrowser(hook: PlaywrightHook): AdaptiveHook {
+  return async (context, gotoOptions) => {
+    if (getContextPage(context)) {
+      await hook(context as unknown as PlaywrightCrawlingContext, gotoOptions);
+    }
+  };
+}
+
+/**
+ * Adaptive Playwright crawler implementation
+ */
+export class AdaptivePlaywrightCrawlerImpl extends BaseCrawlerImpl<AdaptivePlaywrightCrawlerContext> {
+  protected readonly name = "adaptive";
+  protected readonly defaultMaxConcurrency = parseInt(process.env.CRAWLER_MAX_CONCURRENCY_ADAPTIVE || "5", 10);
+
+  protected createCrawler(
+    setup: CrawlerSetup<AdaptivePlaywrightCrawlerContext>,
+    config: Configuration,
+    options: CrawlerOptions,
+  ): AdaptivePlaywrightCrawler {
+    const browser = createBrowserSetup(options, {}, setup.requestHandlerTimeoutSecs * 1000);
+    return new AdaptivePlaywrightCrawler(
+      {
+        ...setup,
+        renderingTypeDetectionRatio: parseFloat(process.env.CRAWLER_ADAPTIVE_DETECTION_RATIO || "0.1"),
+        launchContext: browser.launchContext,
+        ...(browser.browserPoolOptions ? { browserPoolOptions: browser.browserPoolOptions } : {}),
+        preNavigationHooks: [...setup.preNavigationHooks, ...browser.preNavigationHooks.map(inBrowser), markNavigationStart],
+        postNavigationHooks: [...browser.postNavigationHooks.map(inBrowser), markNavigationEnd],
+      },
+      config,
+    );
+  }
+
+  protected async extractPage(context: AdaptivePlaywrightCrawlerContext): Promise<PageContent> {
+    const { request, response, parseWithCheerio } = context;
+    const $ = await parseWithCheerio();
+    const page = getContextPage(context);
+    const traffic = page ? await getPageTraffic(page) : undefined;
+    return {
+      title: $("title").text() || "",
+      htmlContent: $.html(),
+      $,
+      metadata: { ...getHttpResponseMetadata(request, response), ...(traffic ? { traffic } : {}) },
+    };
+  }
+}
@@ -0,0 +1,194 @@
+/**
+ * Inline SVG charts for the HTML reports
+ *
+ * Charts are rendered to markup up front so the reports need no script or
+ * external library to display.
+ */
+
+export interface LineSeries {
+  name: string;
+  points: [number, number][];
+}
+
+export interface BarSeries {
+  name: string;
+  values: number[];
+}
+
+interface ChartOptions {
+  title: string;
+  xLabel?: string;
+  yLabel?: string;
+}
+
+const WIDTH = 640;
+const HEIGHT = 300;
+const MARGIN = { top: 30, right: 20, bottom: 64, left: 60 };
+const PLOT_WIDTH = WIDTH - MARGIN.left - MARGIN.right;
+const PLOT_HEIGHT = HEIGHT - MARGIN.top - MARGIN.bottom;
+const TICKS = 5;
+
+export const PALETTE = ["#2563eb", "#dc2626", "#16a34a", "#d97706", "#7c3aed", "#0891b2", "#db2777", "#4b5563"];
+
+export function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+function formatTick(value: number): string {
+  if (value === 0) return "0";
+  if (Math.abs(value) >= 1000) return `${Math.round(value / 100) / 10}k`;
+  return String(Math.round(value * 100) / 100);
+}
+
+/**
+ * Round the axis maximum up to 1, 2 or 5 times a power of ten
+ */
+function niceMax(value: number): number {
+  if (value <= 0) return 1;
+  const magnitude = 10 ** Math.floor(Math.log10(value));
+  const normalized = value / magnitude;
+  const step = normalized <= 1 ? 1 : normalized <= 2 ? 2 : normalized <= 5 ? 5 : 10;
+  return step * magnitude;
+}
+
+function frame(options: ChartOptions, yMax: number, body: string, xAxis: string, legend: string[]): string {
+  let grid = "";
+  for (let i = 0; i <= TICKS; i++) {
+    const value = (yMax / TICKS) * i;
+    const y = MARGIN.top + PLOT_HEIGHT - (PLOT_HEIGHT / TICKS) * i;
+    grid += `<line x1="${MARGIN.left}" x2="${MARGIN.left + PLOT_WIDTH}" y1="${y}" y2="${y}" class="grid"/>`;
+    grid += `<text x="${MARGIN.left - 6}" y="${y + 4}" text-anchor="end">${formatTick(value)}</text>`;
+  }
+
+  const legendItems = legend
+    .map((name, index) => {
+      const x = MARGIN.left + index * 100;
+      return (
+        `<rect x="${x}" y="${HEIGHT - 14}" width="10" height="10" fill="${PALETTE[index % PALETTE.length]}"/>` +
+        `<text x="${x + 14}" y="${HEIGHT - 5}">${escapeHtml(name)}</text>`
+      );
+    })
+    .join("");
+
+  return (
+    `<figure class="chart"><figcaption>${escapeHtml(options.title)}</figcaption>` +
+    `<svg viewBox="0 0 ${WIDTH} ${HEIGHT}" role="img" aria-label="${escapeHtml(options.title)}">` +
+    grid +
+    `<line x1="${MARGIN.left}" x2="${MARGIN.left}" y1="${MARGIN.top}" y2="${MARGIN.top + PLOT_HEIGHT}" class="axis"/>` +
+    `<line x1="${MARGIN.left}" x2="${MARGIN.left + PLOT_WIDTH}" y1="${MARGIN.top + PLOT_HEIGHT}" ` +
+    `y2="${MARGIN.top + PLOT_HEIGHT}" class="axis"/>` +
+    (options.yLabel ? `<text x="${MARGIN.left}" y="${MARGIN.top - 10}" text-anchor="middle">${escapeHtml(options.yLabel)}</text>` : "") +
+    (options.xLabel
+      ? `<text x="${MARGIN.left + PLOT_WIDTH}" y="${MARGIN.top + PLOT_HEIGHT + 32}" text-anchor="end">${escapeHtml(options.xLabel)}</text>`
+      : "") +
+    xAxis +
+    body +
+    legendItems +
+    `</svg></figure>`
+  );
+}
+
+/**
+ * Line chart with a numeric x axis; `xLabels` replaces the tick values (e.g. dates)
+ */
+export function lineChart(options: ChartOptions & { series: LineSeries[]; xLabels?: string[] }): string {
+  const points = options.series.flatMap((s) => s.points);
+  if (points.length === 0) {
+    return `<p class="empty">${escapeHtml(options.title)}: no data</p>`;
+  }
+
+  const xMin = options.xLabels ? 0 : Math.min(...points.map(([x]) => x));
+  const xMax = options.xLabels ? options.xLabels.length - 1 : Math.max(...points.map(([x]) => x));
+  const yMax = niceMax(Math.max(...points.map(([, y]) => y)));
+  const scaleX = (x: number) => MARGIN.left + (xMax === xMin ? PLOT_WIDTH / 2 : ((x - xMin) / (xMax - xMin)) * PLOT_WIDTH);
+  const scaleY = (y: number) => MARGIN.top + PLOT_HEIGHT - (y / yMax) * PLOT_HEIGHT;
+
+  let xAxis = "";
+  const tickCount = options.xLabels ? options.xLabels.length : TICKS + 1;
+  // Label every n-th position only, so long histories stay legible
+  const labelStep = options.xLabels ? Math.ceil(options.xLabels.length / 6) : 1;
+  for (let i = 0; i < tickCount; i += labelStep) {
+    const value = options.xLabels ? i : xMin + ((xMax - xMin) / TICKS) * i;
+    const label = options.xLabels ? options.xLabels[i] : formatTick(value);
+    xAxis += `<text x="${scaleX(value).toFixed(1)}" y="${MARGIN.top + PLOT_HEIGHT + 16}" text-anchor="middle">${escapeHtml(label)}</text>`;
+  }
+
+  const body = options.series
+    .map((series, index) => {
+      const color = PALETTE[index % PALETTE.length];
+      const path = series.points.map(([x, y]) => `${scaleX(x).toFixed(1)},${scaleY(y).toFixed(1)}`).join(" ");
+      const markers =
+        series.points.length <= 30
+          ? series.points.map(([x, y]) => `<circle cx="${scaleX(x).toFixed(1)}" cy="${scaleY(y).toFixed(1)}" r="3" fill="${color}"/>`).join("")
+          : "";
+      return `<polyline points="${path}" fill="none" stroke="${color}" stroke-width="2"/>${markers}`;
+    })
+    .join("");
+
+  return frame(options, yMax, body, xAxis, options.series.map((s) => s.name));
+}
+
+/**
+ * Grouped bar chart: one group per category, one bar per series
+ */
+export function barChart(options: ChartOptions & { categories: string[]; series: BarSeries[] }): string {
+  const values = options.series.flatMap((s) => s.values);
+  if (options.categories.length === 0 || values.length === 0) {
+    return `<p class="empty">${escapeHtml(options.title)}: no data</p>`;
+  }
+
+  const yMax = niceMax(Math.max(...values));
+  const groupWidth = PLOT_WIDTH / options.categories.length;
+  const barWidth = (groupWidth * 0.8) / options.series.length;
+
+  let xAxis = "";
+  let body = "";
+  options.categories.forEach((category, categoryIndex) => {
+    const groupStart = MARGIN.left + groupWidth * categoryIndex + groupWidth * 0.1;
+    xAxis +=
+      `<text x="${(groupStart + groupWidth * 0.4).toFixed(1)}" y="${MARGIN.top + PLOT_HEIGHT + 16}" ` +
+      `text-anchor="middle">${escapeHtml(category)}</text>`;
+
+    options.series.forEach((series, seriesIndex) => {
+      const value = series.values[categoryIndex] ?? 0;
+      const height = (value / yMax) * PLOT_HEIGHT;
+      body +=
+        `<rect x="${(groupStart + barWidth * seriesIndex).toFixed(1)}" y="${(MARGIN.top + PLOT_HEIGHT - height).toFixed(1)}" ` +
+        `width="${Math.max(1, barWidth - 2).toFixed(1)}" height="${height.toFixed(1)}" fill="${PALETTE[seriesIndex % PALETTE.length]}">` +
+        `<title>${escapeHtml(`${series.name} ${category}: ${formatTick(value)}`)}</title></rect>`;
+    });
+  });
+
+  return frame(options, yMax, body, xAxis, options.series.map((s) => s.name));
+}
+
+/**
+ * Bin several samples on shared edges, for a grouped-bar histogram
+ */
+export function histogramBins(samples: number[][], binCount = 10): { labels: string[]; counts: number[][] } {
+  const all = samples.flat();
+  if (all.length === 0) {
+    return { labels: [], counts: samples.map(() => []) };
+  }
+
+  const min = Math.min(...all);
+  const max = Math.max(...all);
+  const width = max === min ? 1 : (max - min) / binCount;
+  const bins = max === min ? 1 : binCount;
+
+  const labels = Array.from({ length: bins }, (_, i) => `${formatTick(min + width * i)}-${formatTick(min + width * (i + 1))}`);
+  const counts = samples.map((values) => {
+    const row = new Array<number>(bins).fill(0);
+    for (const value of values) {
+      row[Math.min(bins - 1, Math.floor((value - min) / width))]++;
+    }
+    return row;
+  });
+
+  return { labels, counts };
+}
@@ -0,0 +1,101 @@
+/**
+ * Compare stored benchmark reports and flag performance regressions
+ *
+ * Exits with code 1 when a regression past the thresholds is found,
+ * and 2 when the reports cannot be loaded or compared.
+ */
+
+import "dotenv/config";
+import { Command } from "commander";
+import { join } from "path";
+import type { HistoryComparison, RegressionThresholds } from "../types/history.types.js";
+import { compareReports, thresholdsFromEnv } from "../history/compare.js";
+import { latestReports, loadReport, runKey, type LoadedReport } from "../history/store.js";
+import { formatHistoryComparison } from "./formatters/text.js";
+
+const program = new Command();
+const defaults = thresholdsFromEnv();
+
+program
+  .name("compare")
+  .description("Compare stored benchmark reports and exit non-zero on regressions")
+  .argument("[reports...]", "Report files; without --baseline the newest run is compared with the others")
+  .option("-b, --baseline <files...>", "Baseline report files to compare the reports (or the latest stored run) against")
+  .option("-n, --last <number>", "Without report files, compare the newest of the last N stored runs", "2")
+  .option("--duration-threshold <percent>", "Allowed duration increase", String(defaults.duration))
+  .option("--memory-threshold <percent>", "Allowed memory increase", String(defaults.memoryUsed))
+  .option("--throughput-threshold <percent>", "Allowed pages per second decrease", String(defaults.pagesPerSecond))
+  .option("--failure-threshold <pages>", "Allowed increase of failed pages per iteration", String(defaults.pagesFailed))
+  .option("--require-significance", "Only flag changes that are statistically significant (needs 2+ iterations)")
+  .option("--json", "Print the comparison as JSON")
+  .parse(process.argv);
+
+const options = program.opts();
+
+function parseNumber(value: string, name: string): number {
+  const parsed = parseFloat(value);
+  if (Number.isNaN(parsed) || parsed < 0) {
+    throw new Error(`${name} must be a non-negative number, got "${value}"`);
+  }
+  return parsed;
+}
+
+/**
+ * Pick baseline and candidate reports from the arguments and the results directory
+ */
+function selectReports(files: string[]): { baselines: LoadedReport[]; candidates: LoadedReport[] } {
+  const resultsDir = join(process.cwd(), process.env.RESULTS_DIR || "results");
+
+  if (options.baseline) {
+    const candidates = files.length > 0 ? files.map(loadReport) : latestReports(resultsDir, 1);
+    if (candidates.length === 0) {
+      throw new Error(`No benchmark reports found in ${resultsDir}. Run a benchmark first.`);
+    }
+    return { baselines: (options.baseline as string[]).map(loadReport), candidates };
+  }
+
+  const reports = files.length > 0 ? files.map(loadReport) : latestReports(resultsDir, parseInt(options.last, 10));
+  if (reports.length < 2) {
+    throw new Error(
+      files.length > 0
+        ? "Pass at least two reports, or a report and --baseline"
+        : `Need at least two benchmark reports in ${resultsDir}`,
+    );
+  }
+  // All scenario reports of the newest run are candidates
+  const sorted = [...reports].sort((a, b) => a.report.timestamp.localeCompare(b.report.timestamp));
+  const newest = runKey(sorted[sorted.length - 1].path);
+  const baselines = sorted.filter((loaded) => runKey(loaded.path) !== newest);
+  if (baselines.length === 0) {
+    throw new Error("All reports belong to the same run; pass reports of at least two runs, or use --baseline");
+  }
+  return { baselines, candidates: sorted.filter((loaded) => runKey(loaded.path) === newest) };
+}
+
+function main(): number {
+  let comparison: HistoryComparison;
+  try {
+    const thresholds: RegressionThresholds = {
+      duration: parseNumber(options.durationThreshold, "--duration-threshold"),
+      memoryUsed: parseNumber(options.memoryThreshold, "--memory-threshold"),
+      pagesPerSecond: parseNumber(options.throughputThreshold, "--throughput-threshold"),
+      pagesFailed: parseNumber(options.failureThreshold, "--failure-threshold"),
+      requireSignificance: Boolean(options.requireSignificance),
+    };
+    const { baselines, candidates } = selectReports(program.args);
+    comparison = compareReports(baselines, candidates, thresholds);
+  } catch (error) {
+    console.error(`Error: ${error instanceof Error ? error.message : String(error)}`);
+    return 2;
+  }
+
+  if (comparison.deltas.length === 0) {
+    console.error("Error: No comparable runs (the reports share no scenario and crawler)");
+    return 2;
+  }
+
+  console.log(options.json ? JSON.stringify(comparison, null, 2) : formatHistoryComparison(comparison));
+  return comparison.regressions > 0 ? 1 : 0;
+}
+
+process.exit(main());
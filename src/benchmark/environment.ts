@@ -0,0 +1,28 @@
+/**
+ * Runtime and dependency versions recorded with every report
+ */
+
+import { createRequire } from "module";
+import type { BenchmarkEnvironment } from "../types/benchmark.types.js";
+
+const require = createRequire(import.meta.url);
+
+function packageVersion(name: string): string | undefined {
+  try {
+    return (require(`${name}/package.json`) as { version?: string }).version;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Describe the environment the benchmark runs in
+ */
+export function detectEnvironment(): BenchmarkEnvironment {
+  return {
+    node: process.version,
+    crawlee: packageVersion("crawlee"),
+    playwright: packageVersion("playwright"),
+    platform: `${process.platform}-${process.arch}`,
+  };
+}
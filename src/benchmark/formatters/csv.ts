@@ -0,0 +1,85 @@
+/**
+ * CSV report with one row per iteration, for spreadsheets
+ */
+
+import type { BenchmarkReport } from "../../types/benchmark.types.js";
+import type { ReportFormatter } from "../reporter.js";
+import { pagesPerSecond } from "../reporter.js";
+import { formatErrorClasses } from "./text.js";
+
+const COLUMNS = [
+  "scenario",
+  "url",
+  "mode",
+  "crawler",
+  "iteration",
+  "concurrency",
+  "warmup",
+  "full_crawl",
+  "duration_ms",
+  "pages_processed",
+  "pages_failed",
+  "error_classes",
+  "retries",
+  "pages_skipped",
+  "pages_new",
+  "pages_changed",
+  "pages_unchanged",
+  "pages_removed",
+  "pages_not_modified",
+  "body_bytes",
+  "pages_per_second",
+  "memory_used_mb",
+  "peak_rss_mb",
+  "cpu_time_ms",
+  "cpu_percent",
+  "transferred_bytes",
+  "blocked_requests",
+  "expectation_met",
+];
+
+function escapeCsv(value: string | number | boolean | undefined): string {
+  const text = value === undefined ? "" : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function generateCsvReport(reports: BenchmarkReport[]): string {
+  const rows = reports.flatMap((report) => report.results.map((result) => [
+    report.config.scenario,
+    report.config.url,
+    report.config.mode || "crawl",
+    result.crawlerType,
+    result.iteration + 1,
+    result.concurrency,
+    Boolean(result.warmup),
+    Boolean(result.fullCrawl),
+    result.metrics.duration,
+    result.metrics.pagesProcessed,
+    result.metrics.pagesFailed,
+    result.metrics.errorClasses ? formatErrorClasses(result.metrics.errorClasses) : undefined,
+    result.metrics.retries,
+    result.metrics.pagesSkipped,
+    result.metrics.changes?.new,
+    result.metrics.changes?.changed,
+    result.metrics.changes?.unchanged,
+    result.metrics.changes?.removed,
+    result.metrics.changes?.notModified,
+    result.metrics.bodyBytes,
+    Math.round(pagesPerSecond(result) * 100) / 100,
+    result.metrics.memoryUsed,
+    result.metrics.resources?.peakRss,
+    result.metrics.resources?.cpuTime,
+    result.metrics.resources?.cpuPercent,
+    result.metrics.traffic?.bytes,
+    result.metrics.traffic?.blocked,
+    result.expectationMet,
+  ]));
+
+  return [COLUMNS, ...rows].map((row) => row.map(escapeCsv).join(",")).join("\n") + "\n";
+}
+
+export const csvFormatter: ReportFormatter = {
+  name: "csv",
+  extension: "csv",
+  format: generateCsvReport,
+};
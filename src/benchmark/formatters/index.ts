@@ -0,0 +1,50 @@
+/**
+ * Report formatter registry
+ *
+ * Maps the names accepted by `--format` to formatters. Additional formatters
+ * can be registered from outside, e.g. from a module passed to `--require`.
+ * JSON is not a formatter: the runner always writes one JSON report per
+ * scenario, as that is what `compare` and `history` read.
+ */
+
+import type { ReportFormatter } from "../reporter.js";
+import { generateHtmlReport } from "../html-report.js";
+import { textFormatter } from "./text.js";
+import { markdownFormatter } from "./markdown.js";
+import { csvFormatter } from "./csv.js";
+import { junitFormatter } from "./junit.js";
+import { jsonLinesFormatter } from "./jsonl.js";
+
+const registry = new Map<string, ReportFormatter>();
+
+/**
+ * Register a formatter under its name, replacing any existing one
+ */
+export function registerFormatter(formatter: ReportFormatter): void {
+  registry.set(formatter.name, formatter);
+}
+
+/**
+ * Look up a registered formatter
+ */
+export function getFormatter(name: string): ReportFormatter {
+  const formatter = registry.get(name);
+  if (!formatter) {
+    throw new Error(`Unknown format "${name}". Available: ${getFormatterNames().join(", ")}`);
+  }
+  return formatter;
+}
+
+/**
+ * Names of all registered formatters, in registration order
+ */
+export function getFormatterNames(): string[] {
+  return [...registry.keys()];
+}
+
+registerFormatter(textFormatter);
+registerFormatter({ name: "html", extension: "html", format: generateHtmlReport });
+registerFormatter(markdownFormatter);
+registerFormatter(csvFormatter);
+registerFormatter(junitFormatter);
+registerFormatter(jsonLinesFormatter);
@@ -0,0 +1,91 @@
+/**
+ * JSON Lines report for log pipelines
+ *
+ * One event per line: every iteration, the statistics per crawler, every
+ * concurrency sweep level, every crawler pair of the comparison and its output parity, and every
+ * baseline delta. Page HTML and resource samples are left out to keep lines small.
+ */
+
+import type { BenchmarkReport } from "../../types/benchmark.types.js";
+import type { FormatContext, ReportFormatter } from "../reporter.js";
+import { scenarioKey } from "../../history/store.js";
+
+function generateJsonLinesReport(reports: BenchmarkReport[], context: FormatContext): string {
+  const events = reports.flatMap((report) => reportEvents(report, context));
+  return events.map((event) => JSON.stringify(event)).join("\n") + "\n";
+}
+
+function reportEvents(report: BenchmarkReport, context: FormatContext): Record<string, unknown>[] {
+  const base = {
+    timestamp: report.timestamp,
+    scenario: report.config.scenario,
+    url: report.config.url,
+    mode: report.config.mode || "crawl",
+  };
+
+  const deltas = context.comparison?.deltas.filter((delta) => delta.scenario === scenarioKey(report.config)) || [];
+
+  return [
+    ...report.results.map((result) => {
+      const { resources, errors, ...metrics } = result.metrics;
+      const { samples, ...resourceSummary } = resources || { samples: [] };
+      return {
+        type: "iteration",
+        ...base,
+        crawler: result.crawlerType,
+        iteration: result.iteration + 1,
+        ...(result.concurrency !== undefined ? { concurrency: result.concurrency } : {}),
+        warmup: Boolean(result.warmup),
+        ...(result.expectationMet !== undefined ? { expectationMet: result.expectationMet } : {}),
+        ...metrics,
+        errors: errors.length,
+        ...(resources ? { resources: resourceSummary, samples: samples.length } : {}),
+      };
+    }),
+    ...report.statistics.map(({ crawlerType, ...stats }) => ({
+      type: "statistics",
+      ...base,
+      crawler: crawlerType,
+      ...stats,
+    })),
+    ...(report.sweep || []).flatMap((crawler) =>
+      crawler.levels.map((level) => ({
+        type: "sweep",
+        ...base,
+        crawler: crawler.crawlerType,
+        ...level,
+        best: level.concurrency === crawler.best,
+      })),
+    ),
+    ...(report.comparison?.pairs || []).map(({ parity, ...pair }) => ({ type: "comparison", ...base, ...pair })),
+    ...(report.comparison?.pairs || [])
+      .filter((pair) => pair.parity)
+      .map((pair) => {
+        const { pages, onlyA, onlyB, ...parity } = pair.parity!;
+        return {
+          type: "parity",
+          ...base,
+          crawlerA: pair.crawlerA,
+          crawlerB: pair.crawlerB,
+          ...parity,
+          onlyA: onlyA.length,
+          onlyB: onlyB.length,
+          differingPages: pages.length,
+        };
+      }),
+    ...deltas.map((delta) => ({
+      type: "baseline",
+      ...base,
+      crawler: delta.crawlerType,
+      baseline: delta.baseline.path,
+      regression: delta.regression,
+      metrics: delta.metrics,
+    })),
+  ];
+}
+
+export const jsonLinesFormatter: ReportFormatter = {
+  name: "jsonl",
+  extension: "jsonl",
+  format: generateJsonLinesReport,
+};
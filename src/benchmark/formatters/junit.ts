@@ -0,0 +1,135 @@
+/**
+ * JUnit XML report, so CI can show pass/fail per scenario
+ *
+ * One test suite per scenario with, for every crawler, a test case that fails
+ * when the run had failed pages or errors or missed the scenario's expected
+ * page count and, when a baseline was given, one test case per compared metric
+ * that fails on a regression.
+ */
+
+import type { BenchmarkReport } from "../../types/benchmark.types.js";
+import type { FormatContext, ReportFormatter } from "../reporter.js";
+import { scenarioKey } from "../../history/store.js";
+import { METRIC_LABELS, formatErrorClasses } from "./text.js";
+
+interface TestCase {
+  classname: string;
+  name: string;
+  /** Seconds */
+  time: number;
+  failure?: string;
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+}
+
+function renderTestCase(testCase: TestCase): string {
+  const attributes = `classname="${escapeXml(testCase.classname)}" name="${escapeXml(testCase.name)}" time="${testCase.time}"`;
+  if (!testCase.failure) {
+    return `    <testcase ${attributes}/>\n`;
+  }
+  return (
+    `    <testcase ${attributes}>\n` +
+    `      <failure message="${escapeXml(testCase.failure)}"/>\n` +
+    `    </testcase>\n`
+  );
+}
+
+interface TestSuite {
+  name: string;
+  timestamp: string;
+  testCases: TestCase[];
+}
+
+function suiteTime(testCases: TestCase[]): number {
+  return Math.round(testCases.reduce((sum, testCase) => sum + testCase.time, 0) * 1000) / 1000;
+}
+
+function renderTestSuite(suite: TestSuite): string {
+  const failures = suite.testCases.filter((testCase) => testCase.failure).length;
+  return (
+    `  <testsuite name="${escapeXml(suite.name)}" tests="${suite.testCases.length}" failures="${failures}" errors="0" ` +
+    `time="${suiteTime(suite.testCases)}" timestamp="${escapeXml(suite.timestamp)}">\n` +
+    suite.testCases.map(renderTestCase).join("") +
+    `  </testsuite>\n`
+  );
+}
+
+function buildTestSuite(report: BenchmarkReport, context: FormatContext): TestSuite {
+  const scenario = scenarioKey(report.config);
+  const measured = report.results.filter((r) => !r.warmup);
+  const crawlers = [...new Set(measured.map((r) => r.crawlerType))];
+  const testCases: TestCase[] = [];
+
+  for (const crawler of crawlers) {
+    const runs = measured.filter((r) => r.crawlerType === crawler);
+    const failedPages = runs.reduce((sum, r) => sum + r.metrics.pagesFailed, 0);
+    const errorClasses: Record<string, number> = {};
+    for (const [errorClass, count] of runs.flatMap((r) => Object.entries(r.metrics.errorClasses || {}))) {
+      errorClasses[errorClass] = (errorClasses[errorClass] || 0) + count;
+    }
+    const errors = runs.flatMap((r) => r.metrics.errors);
+    const emptyRuns = runs.filter((r) => r.metrics.pagesProcessed === 0).length;
+    const unmetRuns = runs.filter((r) => r.expectationMet === false).length;
+    const expected = report.config.expectedPages;
+
+    const problems = [
+      ...(emptyRuns > 0 ? [`${emptyRuns} iteration(s) processed no pages`] : []),
+      ...(failedPages > 0
+        ? [`${failedPages} failed page(s)${Object.keys(errorClasses).length > 0 ? ` (${formatErrorClasses(errorClasses)})` : ""}`]
+        : []),
+      ...(errors.length > 0 ? [`first error: ${errors[0]}`] : []),
+      ...(unmetRuns > 0 && expected
+        ? [`${unmetRuns} iteration(s) outside the expected ${expected.min ?? 0}-${expected.max ?? "∞"} pages`]
+        : []),
+    ];
+    testCases.push({
+      classname: `${scenario}.${crawler}`,
+      name: "completes without failures",
+      time: runs.reduce((sum, r) => sum + r.metrics.duration, 0) / 1000,
+      failure: problems.length > 0 ? problems.join("; ") : undefined,
+    });
+
+    const deltas = context.comparison?.deltas.filter((d) => d.scenario === scenario && d.crawlerType === crawler);
+    for (const delta of deltas || []) {
+      for (const metric of delta.metrics) {
+        const change = metric.changePercent === null ? `${metric.change}` : `${metric.changePercent}%`;
+        testCases.push({
+          classname: `${scenario}.${crawler}`,
+          name: `${METRIC_LABELS[metric.metric]} vs baseline`,
+          time: 0,
+          failure: metric.regression
+            ? `${METRIC_LABELS[metric.metric]} regressed: ${metric.baseline} -> ${metric.candidate} (${change})`
+            : undefined,
+        });
+      }
+    }
+  }
+
+  return { name: scenario, timestamp: report.timestamp, testCases };
+}
+
+function generateJUnitReport(reports: BenchmarkReport[], context: FormatContext): string {
+  const suites = reports.map((report) => buildTestSuite(report, context));
+  const testCases = suites.flatMap((suite) => suite.testCases);
+  const failures = testCases.filter((testCase) => testCase.failure).length;
+
+  return (
+    `<?xml version="1.0" encoding="UTF-8"?>\n` +
+    `<testsuites name="crawlee-benchmark" tests="${testCases.length}" failures="${failures}" time="${suiteTime(testCases)}">\n` +
+    suites.map(renderTestSuite).join("") +
+    `</testsuites>\n`
+  );
+}
+
+export const junitFormatter: ReportFormatter = {
+  name: "junit",
+  extension: "xml",
+  format: generateJUnitReport,
+};
@@ -0,0 +1,206 @@
+/**
+ * Markdown report, sized for pull request comments
+ */
+
+import type { BenchmarkReport, ConcurrencySweep, MetricSummary } from "../../types/benchmark.types.js";
+import type { HistoryComparison } from "../../types/history.types.js";
+import type { FormatContext, ReportFormatter } from "../reporter.js";
+import {
+  METRIC_LABELS,
+  formatBrowser,
+  formatChanges,
+  formatConcurrency,
+  formatErrorClasses,
+  formatHtmlContent,
+  formatParityVerdict,
+  formatProxy,
+  formatRetries,
+} from "./text.js";
+
+function cell(value: string | number): string {
+  return String(value).replace(/\|/g, "\\|").replace(/\r?\n/g, " ");
+}
+
+function row(cells: (string | number)[]): string {
+  return `| ${cells.map(cell).join(" | ")} |\n`;
+}
+
+function table(headers: string[], rows: (string | number)[][]): string {
+  return row(headers) + row(headers.map(() => "---")) + rows.map(row).join("");
+}
+
+function meanWithInterval(summary: MetricSummary): string {
+  return `${summary.mean} (${summary.ci95[0]}–${summary.ci95[1]})`;
+}
+
+/**
+ * Mean pages per second per crawler and concurrency level, the best level in bold
+ */
+function sweepTable(sweep: ConcurrencySweep[]): string {
+  const concurrencies = [...new Set(sweep.flatMap((crawler) => crawler.levels.map((level) => level.concurrency)))].sort(
+    (a, b) => a - b,
+  );
+  return table(
+    ["Pages/sec at concurrency", ...concurrencies.map(String)],
+    sweep.map((crawler) => [
+      crawler.crawlerType,
+      ...concurrencies.map((concurrency) => {
+        const level = crawler.levels.find((l) => l.concurrency === concurrency);
+        if (!level) return "-";
+        return concurrency === crawler.best ? `**${level.pagesPerSecond.mean}**` : level.pagesPerSecond.mean;
+      }),
+    ]),
+  );
+}
+
+function regressionSection(comparison: HistoryComparison): string {
+  let output = `### Against baseline\n\n`;
+  output +=
+    comparison.regressions > 0
+      ? `:x: **${comparison.regressions} regression(s)**\n\n`
+      : `:white_check_mark: No regressions\n\n`;
+
+  output += table(
+    ["Scenario", "Crawler", "Metric", "Baseline", "Current", "Change", ""],
+    comparison.deltas.flatMap((delta) =>
+      delta.metrics.map((metric) => [
+        delta.scenario,
+        delta.crawlerType,
+        METRIC_LABELS[metric.metric],
+        metric.baseline,
+        metric.candidate,
+        metric.changePercent === null ? metric.change : `${metric.changePercent > 0 ? "+" : ""}${metric.changePercent}%`,
+        metric.regression ? ":x:" : "",
+      ]),
+    ),
+  );
+
+  if (comparison.unmatched.length > 0) {
+    output += `\nNo baseline for: ${comparison.unmatched.join(", ")}\n`;
+  }
+  return output;
+}
+
+function generateMarkdownReport(reports: BenchmarkReport[], context: FormatContext): string {
+  let output = reports.map(reportSection).join("");
+
+  if (context.comparison) {
+    output += regressionSection(context.comparison);
+  }
+
+  return output;
+}
+
+/**
+ * Failed pages by error class and retries per crawler, totalled over measured iterations; empty without failures
+ */
+function failureTable(report: BenchmarkReport): string {
+  const measured = report.results.filter((r) => !r.warmup);
+  if (!measured.some((r) => r.metrics.pagesFailed > 0)) {
+    return "";
+  }
+  const crawlers = [...new Set(measured.map((r) => r.crawlerType))];
+  const rows = crawlers.map((crawler) => {
+    const runs = measured.filter((r) => r.crawlerType === crawler);
+    const errorClasses: Record<string, number> = {};
+    for (const [errorClass, count] of runs.flatMap((r) => Object.entries(r.metrics.errorClasses || {}))) {
+      errorClasses[errorClass] = (errorClasses[errorClass] || 0) + count;
+    }
+    return [
+      crawler,
+      runs.reduce((sum, r) => sum + r.metrics.pagesFailed, 0),
+      formatErrorClasses(errorClasses) || "-",
+      runs.reduce((sum, r) => sum + (r.metrics.retries || 0), 0),
+    ];
+  });
+  return table(["Crawler", "Failed pages", "Error classes", "Retries"], rows) + "\n";
+}
+
+function reportSection(report: BenchmarkReport): string {
+  const { config, environment } = report;
+  let output = `## Crawlee Benchmark: ${config.scenario || config.url}\n\n`;
+  output += `${config.mode || "crawl"} mode, max ${config.maxPages} pages / depth ${config.maxDepth}, `;
+  output += `${config.iterations} iterations (+${config.warmupIterations || 0} warm-up)`;
+  if (environment) {
+    output += `, crawlee ${environment.crawlee || "?"}, playwright ${environment.playwright || "?"}, node ${environment.node}`;
+  }
+  if (config.browser) {
+    output += `, browser: ${formatBrowser(config.browser)}`;
+  }
+  if (config.proxy) {
+    output += `, proxy: ${formatProxy(config.proxy)}`;
+  }
+  if (formatConcurrency(config)) {
+    output += `, concurrency: ${formatConcurrency(config)}`;
+  }
+  if (config.retries) {
+    output += `, retries: ${formatRetries(config.retries)}`;
+  }
+  if (config.incremental) {
+    output += ", incremental recrawls";
+  }
+  if (config.html) {
+    output += `, HTML: ${formatHtmlContent(config.html)}`;
+  }
+  output += "\n\n";
+
+  if (report.sweep) {
+    output += sweepTable(report.sweep);
+    output += `\nStatistics and comparison below are at concurrency ${Math.max(...(config.concurrencySweep || []))}.\n\n`;
+  }
+
+  if (report.statistics.length > 0) {
+    output += table(
+      ["Crawler", "Duration ms (95% CI)", "p95 ms", "Memory MB", "Pages/sec"],
+      report.statistics.map((stats) => [
+        stats.crawlerType,
+        meanWithInterval(stats.duration),
+        stats.duration.p95,
+        stats.memoryUsed.mean,
+        stats.pagesPerSecond.mean,
+      ]),
+    );
+    output += "\n";
+  }
+
+  output += failureTable(report);
+
+  if (report.incremental) {
+    output += table(
+      ["Crawler", "Full crawl ms", "Recrawl ms", "Time saved", "Bytes saved", "Changes (mean)"],
+      report.incremental.map((savings) => [
+        savings.crawlerType,
+        savings.fullDuration,
+        savings.duration,
+        `${savings.durationSaved}%`,
+        `${savings.bytesSaved}%`,
+        formatChanges(savings.changes),
+      ]),
+    );
+    output += "\n";
+  }
+
+  if (report.comparison) {
+    output += `Fastest: **${report.comparison.fastest}**\n\n`;
+    output += table(
+      ["Pair", "Speedup", "Memory diff MB", "Pages diff", "Significant", "Output"],
+      report.comparison.pairs.map((pair) => [
+        `${pair.crawlerA} vs ${pair.crawlerB}`,
+        `${pair.speedup.toFixed(2)}x`,
+        pair.memoryDifference.toFixed(2),
+        pair.pagesDifference,
+        pair.speedupSignificance.significant ? "yes" : "no",
+        pair.parity ? formatParityVerdict(pair.parity) : "-",
+      ]),
+    );
+    output += "\n";
+  }
+
+  return output;
+}
+
+export const markdownFormatter: ReportFormatter = {
+  name: "markdown",
+  extension: "md",
+  format: generateMarkdownReport,
+};
@@ -0,0 +1,699 @@
+/**
+ * Plain text report and console summary
+ */
+
+import type {
+  BenchmarkConfig,
+  BenchmarkEnvironment,
+  BenchmarkMetrics,
+  BenchmarkReport,
+  ComparisonMatrix,
+  ConcurrencySweep,
+  CrawlerStatistics,
+  IncrementalSavings,
+  MetricSummary,
+  OutputParity,
+  PageParity,
+  PairwiseComparison,
+  SignificanceTest,
+} from "../../types/benchmark.types.js";
+import type { ComparedMetric, HistoryComparison, MetricDelta } from "../../types/history.types.js";
+import type {
+  BrowserOptions,
+  ChangeSummary,
+  ErrorClass,
+  HtmlContentOptions,
+  LinkOptions,
+  PageLoadOptions,
+  PageTraffic,
+  ProxyOptions,
+  RetryOptions,
+  SessionOptions,
+} from "../../types/crawler.types.js";
+import type { LocalProxyStats } from "../../types/fixture.types.js";
+import type { FormatContext, ReportFormatter } from "../reporter.js";
+
+export const METRIC_LABELS: Record<ComparedMetric, string> = {
+  duration: "Duration (ms)",
+  memoryUsed: "Memory (MB)",
+  pagesPerSecond: "Pages/sec",
+  pagesFailed: "Failed pages",
+};
+
+/**
+ * Generate text report
+ */
+function generateTextReport(reports: BenchmarkReport[], context: FormatContext): string {
+  let output = reports.map(formatReport).join("\n");
+
+  if (context.comparison) {
+    output += "\n" + formatHistoryComparison(context.comparison) + "\n";
+  }
+
+  return output;
+}
+
+/**
+ * Text section of a single scenario
+ */
+function formatReport(report: BenchmarkReport): string {
+  let output = "=".repeat(60) + "\n";
+  output += "Crawlee Benchmark Report\n";
+  output += "=".repeat(60) + "\n\n";
+  output += `Timestamp: ${report.timestamp}\n`;
+  if (report.config.scenario) {
+    output += `Scenario: ${report.config.scenario}\n`;
+  }
+  output += `URL: ${report.config.url}\n`;
+  output += `Mode: ${report.config.mode || "crawl"}\n`;
+  if (report.config.mode === "scrap") {
+    output += `URL List: ${report.config.urls?.length || 1} URLs${report.config.urlsFile ? ` (${report.config.urlsFile})` : ""}\n`;
+  }
+  output += `Max Pages: ${report.config.maxPages}\n`;
+  output += `Max Depth: ${report.config.maxDepth}\n`;
+  output += `Iterations: ${report.config.iterations}\n`;
+  const concurrency = formatConcurrency(report.config);
+  if (concurrency) {
+    output += `Concurrency: ${concurrency}\n`;
+  }
+  if (report.config.concurrencySweep) {
+    output += `Concurrency sweep: ${report.config.concurrencySweep.join(", ")}\n`;
+  }
+  if (report.config.extract || report.config.cssRules) {
+    output += `Extractors: ${[...(report.config.extract || []), ...(report.config.cssRules ? ["css"] : [])].join(", ")}\n`;
+  }
+  if (report.config.respectRobotsTxt) {
+    output += `robots.txt: respected (user agent "${report.config.robotsUserAgent || "*"}")\n`;
+  }
+  if (report.config.sitemaps) {
+    output += "Sitemaps: seeding crawl\n";
+  }
+  if (report.config.links) {
+    output += `Links: ${formatLinkOptions(report.config.links)}\n`;
+  }
+  if (report.config.pageLoad) {
+    output += `Page load: ${formatPageLoad(report.config.pageLoad)}\n`;
+  }
+  if (report.config.browser) {
+    output += `Browser: ${formatBrowser(report.config.browser)}\n`;
+  }
+  if (report.config.proxy) {
+    output += `Proxy: ${formatProxy(report.config.proxy)}\n`;
+  }
+  if (report.config.sessions) {
+    output += `Sessions: ${formatSessions(report.config.sessions)}\n`;
+  }
+  if (report.config.retries) {
+    output += `Retries: ${formatRetries(report.config.retries)}\n`;
+  }
+  if (report.config.incremental) {
+    output += "Incremental: full crawl, then recrawls against its page state\n";
+  }
+  if (report.config.html) {
+    output += `HTML: ${formatHtmlContent(report.config.html)}\n`;
+  }
+  output += `Warm-up Iterations: ${report.config.warmupIterations || 0}\n\n`;
+
+  if (report.comparison) {
+    const { averages, pairs, fastest } = report.comparison;
+    output += "=".repeat(60) + "\n";
+    output += `Comparison Results${report.sweep ? ` (concurrency ${highestLevel(report.sweep)})` : ""}\n`;
+    output += "=".repeat(60) + "\n\n";
+
+    for (const result of averages) {
+      output += `${result.crawlerType.toUpperCase()}:\n`;
+      output += `  Duration: ${result.metrics.duration}ms\n`;
+      output += `  Pages: ${result.metrics.pagesProcessed}\n`;
+      output += `  Failed: ${formatFailed(result.metrics)}\n`;
+      if (result.metrics.retries) {
+        output += `  Retries: ${result.metrics.retries}\n`;
+      }
+      if (result.metrics.pagesSkipped) {
+        output += `  Skipped: ${result.metrics.pagesSkipped}\n`;
+      }
+      if (result.metrics.traffic) {
+        output += `  Traffic: ${formatTraffic(result.metrics.traffic)}\n`;
+      }
+      if (result.metrics.proxies) {
+        output += `  Pages per proxy: ${formatProxyUsage(result.metrics.proxies)}\n`;
+      }
+      if (result.metrics.proxyTraffic) {
+        output += `  Local proxy traffic: ${formatProxyTraffic(result.metrics.proxyTraffic)}\n`;
+      }
+      if (result.metrics.sessions !== undefined) {
+        output += `  Sessions used: ${result.metrics.sessions}\n`;
+      }
+      output += `  Memory: ${result.metrics.memoryUsed}MB\n\n`;
+    }
+
+    output += `Fastest: ${fastest}\n\n`;
+    output += formatSpeedupMatrix(report.comparison) + "\n";
+
+    for (const pair of pairs) {
+      output += `${pair.crawlerA} vs ${pair.crawlerB}:\n`;
+      output += `  Speedup: ${formatSpeedup(pair)}\n`;
+      output += `  Memory Difference: ${pair.memoryDifference.toFixed(2)}MB\n`;
+      output += `  Pages Difference: ${pair.pagesDifference}\n`;
+      if (pair.bytesDifference !== undefined) {
+        output += `  Bytes Difference: ${(pair.bytesDifference / 1024).toFixed(1)}KB\n`;
+      }
+      output += `  Significance: ${formatSignificance(pair.speedupSignificance)}\n`;
+      if (pair.parity) {
+        output += formatParity(pair.crawlerA, pair.crawlerB, pair.parity);
+      } else if (report.config.html) {
+        output += `  Output Parity: ${PARITY_UNAVAILABLE}\n`;
+      }
+      output += "\n";
+    }
+  } else {
+    output += "=".repeat(60) + "\n";
+    output += "Results\n";
+    output += "=".repeat(60) + "\n\n";
+
+    for (const result of report.results) {
+      const label = result.fullCrawl ? "Full crawl" : `${result.warmup ? "Warm-up" : "Iteration"} ${result.iteration + 1}`;
+      const level = result.concurrency !== undefined ? `, concurrency ${result.concurrency}` : "";
+      const interrupted = result.interrupted ? ", interrupted" : "";
+      output += `${result.crawlerType.toUpperCase()} (${label}${level}${interrupted}):\n`;
+      output += `  Duration: ${result.metrics.duration}ms\n`;
+      output += `  Pages: ${result.metrics.pagesProcessed}\n`;
+      output += `  Failed: ${formatFailed(result.metrics)}\n`;
+      if (result.metrics.retries) {
+        output += `  Retries: ${result.metrics.retries}\n`;
+      }
+      if (result.metrics.resumedPages) {
+        output += `  Resumed: ${result.metrics.resumedPages} pages\n`;
+      }
+      if (result.metrics.changes) {
+        output += `  Changes: ${formatChanges(result.metrics.changes)}\n`;
+      }
+      if (result.metrics.pagesSkipped) {
+        output += `  Skipped: ${formatSkipped(result.metrics.skipped || {})}\n`;
+      }
+      if (result.metrics.sitemapUrls !== undefined) {
+        output += `  Sitemap URLs: ${result.metrics.sitemapUrls}\n`;
+      }
+      if (result.metrics.crawlDelay !== undefined) {
+        output += `  Crawl-delay: ${result.metrics.crawlDelay}s\n`;
+      }
+      if (result.metrics.traffic) {
+        output += `  Traffic: ${formatTraffic(result.metrics.traffic)}\n`;
+      }
+      if (result.metrics.proxies) {
+        output += `  Pages per proxy: ${formatProxyUsage(result.metrics.proxies)}\n`;
+      }
+      if (result.metrics.proxyTraffic) {
+        output += `  Local proxy traffic: ${formatProxyTraffic(result.metrics.proxyTraffic)}\n`;
+      }
+      if (result.metrics.sessions !== undefined) {
+        output += `  Sessions used: ${result.metrics.sessions}\n`;
+      }
+      output += `  Memory: ${result.metrics.memoryUsed}MB\n\n`;
+    }
+  }
+
+  if (report.statistics.length > 0) {
+    output += "\n" + "=".repeat(60) + "\n";
+    output += "Statistics (measured iterations)\n";
+    output += "=".repeat(60) + "\n\n";
+
+    for (const stats of report.statistics) {
+      output += `${stats.crawlerType.toUpperCase()} (${stats.iterations} iterations, ${stats.warmupIterations} warm-up):\n`;
+      output += `  Duration (ms):   ${formatSummary(stats.duration)}\n`;
+      output += `  Memory (MB):     ${formatSummary(stats.memoryUsed)}\n`;
+      output += `  Pages/sec:       ${formatSummary(stats.pagesPerSecond)}\n\n`;
+    }
+
+    const withTimings = report.statistics.filter((stats) => stats.timings);
+    if (withTimings.length > 0) {
+      output += "Per-page timings in ms (mean / p95):\n";
+      output += `  ${"Phase".padEnd(18)}${withTimings.map((stats) => stats.crawlerType.padStart(18)).join("")}\n`;
+      const rows: [string, (stats: CrawlerStatistics) => MetricSummary | undefined][] = [
+        ["Queue wait", (stats) => stats.timings?.phases.queueWait],
+        ["Fetch", (stats) => stats.timings?.phases.fetch],
+        ["Parse / load", (stats) => stats.timings?.phases.parse],
+        ["Handler", (stats) => stats.timings?.phases.handler],
+        ["Storage", (stats) => stats.timings?.phases.storage],
+        ["Total", (stats) => stats.timings?.phases.total],
+        ["DOMContentLoaded", (stats) => stats.timings?.navigation?.domContentLoaded],
+        ["Load", (stats) => stats.timings?.navigation?.load],
+        ["Network idle", (stats) => stats.timings?.navigation?.networkIdle],
+      ];
+      for (const [label, pick] of rows) {
+        const cells = withTimings.map((stats) => {
+          const summary = pick(stats);
+          return (summary ? `${summary.mean} / ${summary.p95}` : "-").padStart(18);
+        });
+        output += `  ${label.padEnd(18)}${cells.join("")}\n`;
+      }
+    }
+  }
+
+  if (report.sweep) {
+    output += "\n" + "=".repeat(60) + "\n";
+    output += "Concurrency Sweep\n";
+    output += "=".repeat(60) + "\n\n";
+    output += formatConcurrencySweep(report.sweep);
+  }
+
+  if (report.incremental) {
+    output += "\n" + "=".repeat(60) + "\n";
+    output += "Incremental Savings (recrawls vs full crawl)\n";
+    output += "=".repeat(60) + "\n\n";
+    for (const savings of report.incremental) {
+      output += `${savings.crawlerType.toUpperCase()}:\n`;
+      output += `  ${formatIncrementalSavings(savings)}\n`;
+      output += `  Changes (mean): ${formatChanges(savings.changes)}\n\n`;
+    }
+  }
+
+  const unmet = report.statistics.filter((stats) =>
+    report.results.some((r) => !r.warmup && r.crawlerType === stats.crawlerType && r.expectationMet === false),
+  );
+  if (unmet.length > 0) {
+    output += `\nExpected pages not met by: ${unmet.map((stats) => stats.crawlerType).join(", ")}\n`;
+  }
+
+  return output;
+}
+
+/**
+ * One-line description of concurrency and rate limits, e.g. "max 10, min 2, autoscaling off, 120 requests/min"
+ */
+export function formatConcurrency(config: BenchmarkConfig): string {
+  const parts: string[] = [];
+  if (config.concurrency) parts.push(`max ${config.concurrency}`);
+  if (config.minConcurrency) parts.push(`min ${config.minConcurrency}`);
+  if (config.autoscale === false) parts.push("autoscaling off");
+  if (config.maxRequestsPerMinute) parts.push(`${config.maxRequestsPerMinute} requests/min`);
+  if (config.hostDelay) parts.push(`${config.hostDelay}ms between requests to a host`);
+  return parts.join(", ");
+}
+
+function highestLevel(sweep: ConcurrencySweep[]): number {
+  return Math.max(...sweep.flatMap((crawler) => crawler.levels.map((level) => level.concurrency)));
+}
+
+/**
+ * Mean pages per second at every concurrency level, one row per crawler; "*" marks each crawler's best level
+ */
+export function formatConcurrencySweep(sweep: ConcurrencySweep[]): string {
+  const concurrencies = [...new Set(sweep.flatMap((crawler) => crawler.levels.map((level) => level.concurrency)))].sort(
+    (a, b) => a - b,
+  );
+  const width = Math.max(13, ...sweep.map((crawler) => crawler.crawlerType.length + 2));
+
+  let output = "Pages/sec by concurrency (mean, * best):\n";
+  output += `  ${"Concurrency".padEnd(width)}${concurrencies.map((concurrency) => `${concurrency} `.padStart(10)).join("")}\n`;
+  for (const crawler of sweep) {
+    const cells = concurrencies.map((concurrency) => {
+      const level = crawler.levels.find((l) => l.concurrency === concurrency);
+      const mark = concurrency === crawler.best ? "*" : " ";
+      return (level ? `${level.pagesPerSecond.mean}${mark}` : "- ").padStart(10);
+    });
+    output += `  ${crawler.crawlerType.padEnd(width)}${cells.join("")}\n`;
+  }
+  return output;
+}
+
+/**
+ * One-line description of link-following rules, e.g. "same-origin, include **\/blog/**, at most 5 per page"
+ */
+export function formatLinkOptions(links: LinkOptions): string {
+  const parts: string[] = [links.strategy ?? "same-domain"];
+  if (links.include?.length) parts.push(`include ${links.include.join(" ")}`);
+  if (links.exclude?.length) parts.push(`exclude ${links.exclude.join(" ")}`);
+  if (links.normalize?.stripParams?.length) parts.push(`strip ${links.normalize.stripParams.join(",")}`);
+  if (links.normalize?.stripFragment === false) parts.push("keep fragments");
+  if (links.maxLinksPerPage) parts.push(`at most ${links.maxLinksPerPage} per page`);
+  return parts.join(", ");
+}
+
+/**
+ * Total skipped URLs with the count per reason, e.g. "12 (robotsTxt 4, limit 8)"
+ */
+export function formatSkipped(skipped: Record<string, number>): string {
+  const entries = Object.entries(skipped);
+  const total = entries.reduce((sum, [, count]) => sum + count, 0);
+  return `${total} (${entries.map(([reason, count]) => `${reason} ${count}`).join(", ")})`;
+}
+
+/**
+ * One-line description of page loading, e.g. "block image,font, wait until domcontentloaded"
+ */
+export function formatPageLoad(pageLoad: PageLoadOptions): string {
+  const parts: string[] = [];
+  if (pageLoad.blockResources?.length) parts.push(`block ${pageLoad.blockResources.join(",")}`);
+  if (pageLoad.blockUrls?.length) parts.push(`block URLs ${pageLoad.blockUrls.join(" ")}`);
+  parts.push(`wait until ${pageLoad.waitUntil ?? "load"}`);
+  if (pageLoad.waitForSelector) parts.push(`and ${pageLoad.waitForSelector}`);
+  return parts.join(", ");
+}
+
+/**
+ * One-line description of browser settings, e.g. "chromium, profile minimal, headless, 1280x720, locale de-DE"
+ */
+export function formatBrowser(browser: BrowserOptions): string {
+  const parts: string[] = [browser.engine ?? "chromium", `profile ${browser.launchProfile ?? "default"}`];
+  if (browser.executablePath) parts.push(`executable ${browser.executablePath}`);
+  parts.push(browser.headless === false ? "headed" : "headless");
+  if (browser.launchArgs?.length) parts.push(`args ${browser.launchArgs.join(" ")}`);
+  if (browser.viewport) parts.push(`${browser.viewport.width}x${browser.viewport.height}`);
+  if (browser.locale) parts.push(`locale ${browser.locale}`);
+  if (browser.userAgent) parts.push(`user agent "${browser.userAgent}"`);
+  return parts.join(", ");
+}
+
+/**
+ * One-line description of proxies, e.g. "rotating local, http://proxy:8000" or "tiers direct | local"
+ */
+export function formatProxy(proxy: ProxyOptions): string {
+  if (proxy.tiers?.length) {
+    return `tiers ${proxy.tiers.map((tier) => tier.map((url) => url ?? "direct").join(", ")).join(" | ")}`;
+  }
+  return `rotating ${(proxy.urls || []).join(", ")}`;
+}
+
+/**
+ * One-line description of session pool settings, e.g. "at most 10, retire on 403,429, no cookies"
+ */
+export function formatSessions(sessions: SessionOptions): string {
+  const parts: string[] = [];
+  if (sessions.maxSessions) parts.push(`at most ${sessions.maxSessions}`);
+  if (sessions.retireOnStatus) parts.push(`retire on ${sessions.retireOnStatus.join(",")}`);
+  if (sessions.persistCookies === false) parts.push("no cookies");
+  return parts.join(", ");
+}
+
+/**
+ * One-line description of the retry policy, e.g. "at most 2, backoff 500ms, on 404,429"
+ */
+export function formatRetries(retries: RetryOptions): string {
+  const parts: string[] = [];
+  if (retries.maxRetries !== undefined) parts.push(`at most ${retries.maxRetries}`);
+  if (retries.backoff) parts.push(`backoff ${retries.backoff}ms`);
+  if (retries.retryOnStatus) parts.push(`on ${retries.retryOnStatus.join(",")}`);
+  return parts.join(", ");
+}
+
+/**
+ * What results keep of each page's HTML, e.g. "first 1000 characters"
+ */
+export function formatHtmlContent(html: HtmlContentOptions): string {
+  if (html.drop) return "dropped";
+  return html.maxLength !== undefined ? `first ${html.maxLength} characters` : "all";
+}
+
+/**
+ * Pages per change status on one line, e.g. "new 0, changed 2, unchanged 8 (304: 8), removed 0, unvisited 1"
+ */
+export function formatChanges(changes: ChangeSummary): string {
+  const unchanged = changes.notModified ? `unchanged ${changes.unchanged} (304: ${changes.notModified})` : `unchanged ${changes.unchanged}`;
+  const parts = [`new ${changes.new}`, `changed ${changes.changed}`, unchanged, `removed ${changes.removed}`];
+  if (changes.unvisited) parts.push(`unvisited ${changes.unvisited}`);
+  return parts.join(", ");
+}
+
+/**
+ * Duration and bytes of recrawls against the full crawl, e.g. "1200ms -> 300ms (75% saved), 84.0KB -> 16.8KB (80% saved)"
+ */
+export function formatIncrementalSavings(savings: IncrementalSavings): string {
+  return (
+    `${savings.fullDuration}ms -> ${savings.duration}ms (${savings.durationSaved}% saved), ` +
+    `${(savings.fullBytes / 1024).toFixed(1)}KB -> ${(savings.bytes / 1024).toFixed(1)}KB (${savings.bytesSaved}% saved)`
+  );
+}
+
+/**
+ * Failed pages per error class on one line, e.g. "timeout 2, http-5xx 1"
+ */
+export function formatErrorClasses(errorClasses: Partial<Record<ErrorClass, number>>): string {
+  return Object.entries(errorClasses)
+    .map(([errorClass, count]) => `${errorClass} ${count}`)
+    .join(", ");
+}
+
+/**
+ * Failed page count followed by the error classes, e.g. "3 (timeout 2, http-5xx 1)"
+ */
+export function formatFailed(metrics: Pick<BenchmarkMetrics, "pagesFailed" | "errorClasses">): string {
+  const classes = metrics.errorClasses ? formatErrorClasses(metrics.errorClasses) : "";
+  return classes ? `${metrics.pagesFailed} (${classes})` : `${metrics.pagesFailed}`;
+}
+
+/**
+ * Pages per proxy on one line, e.g. "http://127.0.0.1:40123 12, direct 8"
+ */
+export function formatProxyUsage(proxies: Record<string, number>): string {
+  return Object.entries(proxies)
+    .map(([url, count]) => `${url} ${count}`)
+    .join(", ");
+}
+
+/**
+ * Traffic per local proxy on one line, e.g. "http://127.0.0.1:40123 12 requests, 0 tunnels, 40.5KB"
+ */
+export function formatProxyTraffic(traffic: Record<string, LocalProxyStats>): string {
+  return Object.entries(traffic)
+    .map(([url, stats]) => `${url} ${stats.requests} requests, ${stats.tunnels} tunnels, ${(stats.bytes / 1024).toFixed(1)}KB`)
+    .join("; ");
+}
+
+/**
+ * Browser traffic on one line, e.g. "120 requests, 850.3KB, 40 blocked (image 30, font 10)"
+ */
+export function formatTraffic(traffic: PageTraffic): string {
+  const byType = Object.entries(traffic.blockedByType).map(([type, count]) => `${type} ${count}`);
+  return (
+    `${traffic.requests} requests, ${(traffic.bytes / 1024).toFixed(1)}KB, ${traffic.blocked} blocked` +
+    (byType.length > 0 ? ` (${byType.join(", ")})` : "")
+  );
+}
+
+/**
+ * Format a metric summary on a single line
+ */
+function formatSummary(summary: MetricSummary): string {
+  return (
+    `mean=${summary.mean} median=${summary.median} min=${summary.min} max=${summary.max} ` +
+    `p90=${summary.p90} p95=${summary.p95} sd=${summary.stdDev} ci95=[${summary.ci95[0]}, ${summary.ci95[1]}]`
+  );
+}
+
+/**
+ * Describe the outcome of a significance test
+ */
+export function formatSignificance(test: SignificanceTest): string {
+  if (test.tStatistic === null && test.degreesOfFreedom === 0) {
+    return "not enough iterations (need at least 2 per crawler)";
+  }
+  const detail = test.tStatistic === null ? "no variance" : `t=${test.tStatistic}, df=${test.degreesOfFreedom}, critical=${test.tCritical}`;
+  return `${test.significant ? "significant" : "not significant"} at 95% (${detail})`;
+}
+
+/**
+ * Describe which crawler of a pair is faster and by how much
+ */
+export function formatSpeedup(pair: PairwiseComparison): string {
+  const faster = pair.speedup > 1 ? pair.crawlerB : pair.crawlerA;
+  return `${pair.speedup.toFixed(2)}x (${faster} faster)`;
+}
+
+const MAX_PARITY_PAGES = 10;
+
+/** Shown instead of a verdict when the runs kept only part of each page's HTML */
+const PARITY_UNAVAILABLE = "not compared (HTML not kept in full)";
+
+/**
+ * Describe whether a pair's outputs match
+ */
+export function formatParityVerdict(parity: OutputParity): string {
+  if (parity.equivalent) {
+    return `equivalent (mean text similarity ${parity.meanTextSimilarity})`;
+  }
+  const problems = [
+    ...(parity.onlyA.length > 0 || parity.onlyB.length > 0
+      ? [`${parity.onlyA.length + parity.onlyB.length} page(s) found by one crawler only (${parity.onlyA.length}/${parity.onlyB.length})`]
+      : []),
+    ...(parity.missingContent > 0
+      ? [`${parity.missingContent} page(s) missing content, ${parity.likelyJsRendered} likely JS-rendered`]
+      : []),
+    ...(parity.titleMismatches > 0 ? [`${parity.titleMismatches} title mismatch(es)`] : []),
+    ...(parity.dataMismatches > 0 ? [`${parity.dataMismatches} extracted data mismatch(es)`] : []),
+    ...(parity.meanTextSimilarity < parity.similarityThreshold
+      ? [`mean text similarity ${parity.meanTextSimilarity} < ${parity.similarityThreshold}`]
+      : []),
+  ];
+  return `differs (${problems.join(", ")})`;
+}
+
+function formatPageParity(crawlerA: string, crawlerB: string, page: PageParity): string {
+  const notes = [
+    ...(page.missingContent
+      ? [`content missing in ${page.missingContent}${page.likelyJsRendered ? " (likely JS-rendered)" : ""}`]
+      : []),
+    ...(page.titleMatch ? [] : [`title ${JSON.stringify(page.titleA)} vs ${JSON.stringify(page.titleB)}`]),
+    `similarity ${page.textSimilarity}`,
+    `words ${page.wordsA}/${page.wordsB}`,
+    `links ${page.linksA}/${page.linksB}`,
+    ...(page.dataMatch === false ? ["extracted data differs"] : []),
+  ];
+  return `      ${page.url}: ${notes.join(", ")} (${crawlerA}/${crawlerB})\n`;
+}
+
+/**
+ * Output parity of a pair, with the first differing pages
+ */
+function formatParity(crawlerA: string, crawlerB: string, parity: OutputParity): string {
+  let output = `  Output Parity: ${formatParityVerdict(parity)}\n`;
+  output += `    Matched Pages: ${parity.matched} (only ${crawlerA}: ${parity.onlyA.length}, only ${crawlerB}: ${parity.onlyB.length})\n`;
+  output += `    Title Mismatches: ${parity.titleMismatches}\n`;
+  output += `    Text Similarity: mean ${parity.meanTextSimilarity}, min ${parity.minTextSimilarity}\n`;
+  output += `    Link Count Difference: ${parity.linkCountDifference > 0 ? "+" : ""}${parity.linkCountDifference}\n`;
+  if (parity.dataMismatches > 0) {
+    output += `    Extracted Data Mismatches: ${parity.dataMismatches}\n`;
+  }
+  if (parity.pages.length > 0) {
+    output += `    Differing Pages (${parity.pages.length}${parity.pages.length > MAX_PARITY_PAGES ? `, first ${MAX_PARITY_PAGES}` : ""}):\n`;
+    for (const page of parity.pages.slice(0, MAX_PARITY_PAGES)) {
+      output += formatPageParity(crawlerA, crawlerB, page);
+    }
+  }
+  return output;
+}
+
+/**
+ * Render the speedup of every column crawler over every row crawler
+ */
+function formatSpeedupMatrix(comparison: ComparisonMatrix): string {
+  const width = Math.max(12, ...comparison.crawlers.map((name) => name.length + 2));
+  const speedup = (row: string, column: string): string => {
+    if (row === column) return "-";
+    const pair = comparison.pairs.find((p) => p.crawlerA === row && p.crawlerB === column);
+    if (pair) return `${pair.speedup.toFixed(2)}x`;
+    const reverse = comparison.pairs.find((p) => p.crawlerA === column && p.crawlerB === row);
+    return reverse ? `${(1 / reverse.speedup).toFixed(2)}x` : "?";
+  };
+
+  let output = "Speedup matrix (row duration / column duration):\n";
+  output += `  ${"".padEnd(width)}${comparison.crawlers.map((name) => name.padStart(width)).join("")}\n`;
+  for (const row of comparison.crawlers) {
+    output += `  ${row.padEnd(width)}${comparison.crawlers.map((column) => speedup(row, column).padStart(width)).join("")}\n`;
+  }
+  return output;
+}
+
+/**
+ * Print summary to console
+ */
+export function printSummary(report: BenchmarkReport): void {
+  if (!report.comparison && !report.sweep && !report.incremental) {
+    return;
+  }
+  console.log("\n" + "=".repeat(60));
+  console.log(report.config.scenario ? `Summary: ${report.config.scenario}` : "Summary");
+  console.log("=".repeat(60));
+  if (report.sweep) {
+    console.log(formatConcurrencySweep(report.sweep).trimEnd());
+  }
+  if (report.comparison) {
+    const { averages, pairs, fastest } = report.comparison;
+    const width = Math.max(...averages.map((result) => result.crawlerType.length)) + 1;
+    if (report.sweep) {
+      console.log(`At concurrency ${highestLevel(report.sweep)}:`);
+    }
+    for (const result of averages) {
+      console.log(
+        `${`${result.crawlerType}:`.padEnd(width + 1)}${result.metrics.duration}ms | ` +
+          `${result.metrics.pagesProcessed} pages | ${result.metrics.memoryUsed}MB` +
+          (result.metrics.pagesFailed > 0 ? ` | ${formatFailed(result.metrics)} failed` : ""),
+      );
+    }
+    console.log(`Fastest: ${fastest}`);
+    for (const pair of pairs) {
+      console.log(`${pair.crawlerA} vs ${pair.crawlerB}: ${formatSpeedup(pair)}, ${formatSignificance(pair.speedupSignificance)}`);
+      if (pair.parity) {
+        console.log(`  output: ${formatParityVerdict(pair.parity)}`);
+      } else if (report.config.html) {
+        console.log(`  output: ${PARITY_UNAVAILABLE}`);
+      }
+    }
+  }
+  if (report.incremental) {
+    const width = Math.max(...report.incremental.map((savings) => savings.crawlerType.length)) + 1;
+    console.log("Incremental recrawls vs full crawl:");
+    for (const savings of report.incremental) {
+      console.log(`${`${savings.crawlerType}:`.padEnd(width + 1)}${formatIncrementalSavings(savings)}`);
+    }
+  }
+  console.log("=".repeat(60));
+}
+
+function formatEnvironment(environment?: BenchmarkEnvironment): string {
+  if (!environment) {
+    return "";
+  }
+  return ` (crawlee ${environment.crawlee || "?"}, playwright ${environment.playwright || "?"}, node ${environment.node})`;
+}
+
+function formatDelta(delta: MetricDelta): string {
+  const sign = delta.change > 0 ? "+" : "";
+  const percent = delta.changePercent === null ? "" : ` (${sign}${delta.changePercent}%)`;
+  const significance =
+    delta.significance && delta.significance.tStatistic !== null
+      ? delta.significance.significant
+        ? " significant"
+        : " not significant"
+      : "";
+  return (
+    `    ${METRIC_LABELS[delta.metric].padEnd(16)}${String(delta.baseline).padStart(10)} -> ` +
+    `${String(delta.candidate).padEnd(10)}${`${sign}${delta.change}${percent}`.padEnd(22)}` +
+    `${delta.regression ? "REGRESSION" : "ok"}${significance}`
+  );
+}
+
+/**
+ * Render a comparison against stored reports, grouped by scenario
+ */
+export function formatHistoryComparison(comparison: HistoryComparison): string {
+  const { thresholds } = comparison;
+  let output = "=".repeat(60) + "\n";
+  output += "Benchmark Comparison\n";
+  output += "=".repeat(60) + "\n";
+  output +=
+    `Thresholds: duration +${thresholds.duration}%, memory +${thresholds.memoryUsed}%, ` +
+    `pages/sec -${thresholds.pagesPerSecond}%, failed pages +${thresholds.pagesFailed}` +
+    `${thresholds.requireSignificance ? ", significant changes only" : ""}\n`;
+
+  let scenario: string | undefined;
+  for (const delta of comparison.deltas) {
+    if (delta.scenario !== scenario) {
+      scenario = delta.scenario;
+      output += `\nScenario: ${scenario}\n`;
+    }
+    output += `  ${delta.crawlerType.toUpperCase()}${delta.regression ? " - REGRESSION" : ""}\n`;
+    output += `    Baseline:  ${delta.baseline.path}${formatEnvironment(delta.baseline.environment)}\n`;
+    output += `    Candidate: ${delta.candidate.path}${formatEnvironment(delta.candidate.environment)}\n`;
+    for (const metric of delta.metrics) {
+      output += formatDelta(metric) + "\n";
+    }
+  }
+
+  if (comparison.unmatched.length > 0) {
+    output += `\nNo baseline for: ${comparison.unmatched.join(", ")}\n`;
+  }
+
+  output += "\n" + "=".repeat(60) + "\n";
+  output +=
+    comparison.regressions > 0
+      ? `${comparison.regressions} regression(s) found\n`
+      : `No regressions (${comparison.deltas.length} crawler/scenario pairs compared)\n`;
+  output += "=".repeat(60);
+  return output;
+}
+
+export const textFormatter: ReportFormatter = {
+  name: "text",
+  extension: "txt",
+  format: generateTextReport,
+};
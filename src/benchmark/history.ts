@@ -0,0 +1,42 @@
+/**
+ * Build the HTML history view from stored benchmark reports
+ */
+
+import "dotenv/config";
+import { Command } from "commander";
+import { writeFileSync } from "fs";
+import { join } from "path";
+import { latestReports, listReports, loadReport } from "../history/store.js";
+import { generateHistoryHtml } from "./html-report.js";
+
+const program = new Command();
+const resultsDir = join(process.cwd(), process.env.RESULTS_DIR || "results");
+
+program
+  .name("history")
+  .description("Combine stored benchmark reports into an HTML history view")
+  .argument("[reports...]", "Report files (default: all reports in the results directory)")
+  .option("-n, --last <number>", "Only use the last N stored runs")
+  .option("-o, --output <path>", "Output file", join(resultsDir, "history.html"))
+  .parse(process.argv);
+
+const options = program.opts();
+
+try {
+  const reports =
+    program.args.length > 0
+      ? program.args.map(loadReport)
+      : options.last
+        ? latestReports(resultsDir, parseInt(options.last, 10))
+        : listReports(resultsDir).map(loadReport);
+
+  if (reports.length === 0) {
+    throw new Error(`No benchmark reports found in ${resultsDir}. Run a benchmark first.`);
+  }
+
+  writeFileSync(options.output, generateHistoryHtml(reports));
+  console.log(`History of ${reports.length} reports: ${options.output}`);
+} catch (error) {
+  console.error(`Error: ${error instanceof Error ? error.message : String(error)}`);
+  process.exit(1);
+}
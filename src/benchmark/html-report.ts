@@ -0,0 +1,373 @@
+/**
+ * Self-contained HTML reports: a dashboard for one run and a history view over
+ * several stored runs. Charts are inline SVG and styles are embedded, so the
+ * files open offline.
+ */
+
+import { basename } from "path";
+import type {
+  BenchmarkReport,
+  BenchmarkResult,
+  CrawlerStatistics,
+  MetricSummary,
+} from "../types/benchmark.types.js";
+import type { LoadedReport } from "../history/store.js";
+import { scenarioKey } from "../history/store.js";
+import { barChart, escapeHtml, histogramBins, lineChart, type LineSeries } from "./charts.js";
+import { computeStatistics, pagesPerSecond } from "./reporter.js";
+import {
+  formatBrowser,
+  formatChanges,
+  formatConcurrency,
+  formatFailed,
+  formatHtmlContent,
+  formatParityVerdict,
+  formatProxy,
+  formatRetries,
+  formatSessions,
+} from "./formatters/text.js";
+
+const STYLES = `
+body { font-family: system-ui, -apple-system, sans-serif; margin: 2rem auto; max-width: 1360px; padding: 0 1rem; color: #111827; }
+h1 { font-size: 1.6rem; } h2 { font-size: 1.2rem; margin-top: 2rem; border-bottom: 1px solid #e5e7eb; padding-bottom: .3rem; }
+table { border-collapse: collapse; margin: .5rem 0 1rem; font-size: .9rem; }
+th, td { border: 1px solid #e5e7eb; padding: .3rem .6rem; text-align: right; }
+th:first-child, td:first-child { text-align: left; }
+th { background: #f9fafb; }
+.charts { display: grid; grid-template-columns: repeat(auto-fit, minmax(560px, 1fr)); gap: 1rem; }
+.chart { margin: 0; } .chart figcaption { font-weight: 600; margin-bottom: .3rem; }
+svg { width: 100%; height: auto; font-size: 11px; fill: #374151; }
+svg .grid { stroke: #f3f4f6; } svg .axis { stroke: #9ca3af; }
+.meta { color: #4b5563; font-size: .9rem; } .empty { color: #6b7280; font-style: italic; }
+.significant { color: #15803d; } .regression { color: #b91c1c; }
+.scenario + .scenario { margin-top: 3rem; border-top: 3px solid #d1d5db; }
+`;
+
+function page(title: string, body: string): string {
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(title)}</title>
+<style>${STYLES}</style>
+</head>
+<body>
+<h1>${escapeHtml(title)}</h1>
+${body}
+</body>
+</html>
+`;
+}
+
+function table(headers: string[], rows: (string | number)[][]): string {
+  const head = headers.map((header) => `<th>${escapeHtml(header)}</th>`).join("");
+  const body = rows.map((row) => `<tr>${row.map((cell) => `<td>${escapeHtml(String(cell))}</td>`).join("")}</tr>`).join("");
+  return `<table><thead><tr>${head}</tr></thead><tbody>${body}</tbody></table>`;
+}
+
+function summaryCell(summary: MetricSummary): string {
+  return `${summary.mean} ± ${Math.round((summary.ci95[1] - summary.mean) * 100) / 100}`;
+}
+
+function groupByCrawler(results: BenchmarkResult[]): Map<string, BenchmarkResult[]> {
+  const groups = new Map<string, BenchmarkResult[]>();
+  for (const result of results.filter((r) => !r.warmup)) {
+    groups.set(result.crawlerType, [...(groups.get(result.crawlerType) || []), result]);
+  }
+  return groups;
+}
+
+function configSection(report: BenchmarkReport): string {
+  const { config, environment } = report;
+  const items = [
+    ["Timestamp", report.timestamp],
+    ["Scenario", config.scenario || "-"],
+    ["URL", config.url],
+    ["Mode", config.mode || "crawl"],
+    ["Max pages / depth", `${config.maxPages} / ${config.maxDepth}`],
+    ["Iterations", `${config.iterations} (+${config.warmupIterations || 0} warm-up)`],
+    ...(formatConcurrency(config) ? [["Concurrency", formatConcurrency(config)]] : []),
+    ...(config.concurrencySweep ? [["Concurrency sweep", config.concurrencySweep.join(", ")]] : []),
+    ...(config.browser ? [["Browser", formatBrowser(config.browser)]] : []),
+    ...(config.proxy ? [["Proxy", formatProxy(config.proxy)]] : []),
+    ...(config.sessions ? [["Sessions", formatSessions(config.sessions)]] : []),
+    ...(config.retries ? [["Retries", formatRetries(config.retries)]] : []),
+    ...(config.incremental ? [["Incremental", "full crawl, then recrawls against its page state"]] : []),
+    ...(config.html ? [["HTML", formatHtmlContent(config.html)]] : []),
+    ...(environment
+      ? [["Versions", `node ${environment.node}, crawlee ${environment.crawlee || "?"}, playwright ${environment.playwright || "?"}`]]
+      : []),
+  ];
+  return `<p class="meta">${items.map(([label, value]) => `<strong>${escapeHtml(label)}:</strong> ${escapeHtml(String(value))}`).join("<br>")}</p>`;
+}
+
+function statisticsTable(statistics: CrawlerStatistics[]): string {
+  return table(
+    ["Crawler", "Iterations", "Duration ms (mean ± ci95)", "Median ms", "p95 ms", "Memory MB", "Pages/sec"],
+    statistics.map((stats) => [
+      stats.crawlerType,
+      stats.iterations,
+      summaryCell(stats.duration),
+      stats.duration.median,
+      stats.duration.p95,
+      summaryCell(stats.memoryUsed),
+      summaryCell(stats.pagesPerSecond),
+    ]),
+  );
+}
+
+function sweepSection(report: BenchmarkReport): string {
+  if (!report.sweep) {
+    return "";
+  }
+  const concurrencies = [...new Set(report.sweep.flatMap((crawler) => crawler.levels.map((level) => level.concurrency)))].sort(
+    (a, b) => a - b,
+  );
+  let output = `<h2>Concurrency sweep</h2>`;
+  output += lineChart({
+    title: "Throughput by concurrency (mean of measured iterations)",
+    xLabel: "concurrency",
+    yLabel: "pages/s",
+    series: report.sweep.map((crawler) => ({
+      name: crawler.crawlerType,
+      points: crawler.levels.map((level) => [level.concurrency, level.pagesPerSecond.mean]),
+    })),
+  });
+  output += table(
+    ["Crawler", ...concurrencies.map((concurrency) => `${concurrency}`), "Best"],
+    report.sweep.map((crawler) => [
+      crawler.crawlerType,
+      ...concurrencies.map((concurrency) => {
+        const level = crawler.levels.find((l) => l.concurrency === concurrency);
+        return level ? summaryCell(level.pagesPerSecond) : "-";
+      }),
+      crawler.best,
+    ]),
+  );
+  output += `<p class="meta">Pages per second (mean ± ci95). Comparison and statistics are at concurrency ${Math.max(...concurrencies)}.</p>`;
+  return output;
+}
+
+function incrementalSection(report: BenchmarkReport): string {
+  if (!report.incremental) {
+    return "";
+  }
+  let output = `<h2>Incremental recrawls</h2>`;
+  output += table(
+    ["Crawler", "Full crawl ms", "Recrawl ms", "Time saved %", "Full crawl KB", "Recrawl KB", "Bytes saved %", "Changes (mean)"],
+    report.incremental.map((savings) => [
+      savings.crawlerType,
+      savings.fullDuration,
+      savings.duration,
+      savings.durationSaved,
+      (savings.fullBytes / 1024).toFixed(1),
+      (savings.bytes / 1024).toFixed(1),
+      savings.bytesSaved,
+      formatChanges(savings.changes),
+    ]),
+  );
+  output += `<p class="meta">Recrawl values are means over the measured iterations; bytes are response bodies.</p>`;
+  return output;
+}
+
+function comparisonSection(report: BenchmarkReport): string {
+  if (!report.comparison) {
+    return "";
+  }
+  const { averages, pairs, fastest } = report.comparison;
+  let output = `<h2>Comparison</h2><p>Fastest: <strong>${escapeHtml(fastest)}</strong></p>`;
+  output += table(
+    ["Crawler", "Duration ms", "Pages", "Failed", "Retries", "Skipped", "Memory MB", "Transferred KB", "Blocked requests"],
+    averages.map((result) => [
+      result.crawlerType,
+      result.metrics.duration,
+      result.metrics.pagesProcessed,
+      formatFailed(result.metrics),
+      result.metrics.retries || 0,
+      result.metrics.pagesSkipped || 0,
+      result.metrics.memoryUsed || 0,
+      result.metrics.traffic ? (result.metrics.traffic.bytes / 1024).toFixed(1) : "-",
+      result.metrics.traffic?.blocked ?? "-",
+    ]),
+  );
+  output += table(
+    ["Pair", "Speedup (A / B)", "Memory difference MB", "Pages difference", "Bytes difference KB", "Significant"],
+    pairs.map((pair) => [
+      `${pair.crawlerA} vs ${pair.crawlerB}`,
+      `${pair.speedup.toFixed(2)}x`,
+      pair.memoryDifference.toFixed(2),
+      pair.pagesDifference,
+      pair.bytesDifference !== undefined ? (pair.bytesDifference / 1024).toFixed(1) : "-",
+      pair.speedupSignificance.significant ? "yes" : "no",
+    ]),
+  );
+
+  const withParity = pairs.filter((pair) => pair.parity);
+  if (withParity.length > 0) {
+    output += `<h2>Output parity</h2>`;
+    output += table(
+      [
+        "Pair",
+        "Verdict",
+        "Matched",
+        "Only A",
+        "Only B",
+        "Title mismatches",
+        "Text similarity (mean / min)",
+        "Links B - A",
+        "Missing content (JS)",
+      ],
+      withParity.map(({ crawlerA, crawlerB, parity }) => [
+        `${crawlerA} vs ${crawlerB}`,
+        formatParityVerdict(parity!),
+        parity!.matched,
+        parity!.onlyA.length,
+        parity!.onlyB.length,
+        parity!.titleMismatches,
+        `${parity!.meanTextSimilarity} / ${parity!.minTextSimilarity}`,
+        parity!.linkCountDifference,
+        `${parity!.missingContent} (${parity!.likelyJsRendered})`,
+      ]),
+    );
+  }
+  return output;
+}
+
+/**
+ * Dashboard for the reports of one run, one section per scenario
+ */
+export function generateHtmlReport(reports: BenchmarkReport[]): string {
+  if (reports.length === 1) {
+    const [report] = reports;
+    return page(`Crawlee Benchmark Report - ${report.config.scenario || report.config.url}`, reportBody(report));
+  }
+
+  const body = reports
+    .map((report) => {
+      const name = escapeHtml(report.config.scenario || report.config.url);
+      return `<section class="scenario"><h2>Scenario: ${name}</h2>${reportBody(report)}</section>`;
+    })
+    .join("");
+  return page(`Crawlee Benchmark Report - ${reports.length} scenarios`, body);
+}
+
+function reportBody(report: BenchmarkReport): string {
+  const groups = groupByCrawler(report.results);
+  const crawlers = [...groups.keys()];
+  const iterationCount = Math.max(0, ...[...groups.values()].map((results) => results.length));
+
+  const durationChart = barChart({
+    title: "Duration per iteration",
+    yLabel: "ms",
+    categories: Array.from({ length: iterationCount }, (_, i) => `#${i + 1}`),
+    series: crawlers.map((name) => ({ name, values: groups.get(name)!.map((r) => r.metrics.duration) })),
+  });
+
+  // One iteration per crawler keeps the chart readable; the first measured one is as representative as any
+  const memorySeries: LineSeries[] = crawlers.map((name) => ({
+    name,
+    points: (groups.get(name)![0].metrics.resources?.samples || []).map((sample) => [sample.elapsed, sample.rss]),
+  }));
+  const memoryChart = lineChart({
+    title: "Memory over time (RSS, first measured iteration)",
+    xLabel: "ms",
+    yLabel: "MB",
+    series: memorySeries,
+  });
+
+  const throughputChart = barChart({
+    title: "Pages per second per iteration",
+    yLabel: "pages/s",
+    categories: Array.from({ length: iterationCount }, (_, i) => `#${i + 1}`),
+    series: crawlers.map((name) => ({
+      name,
+      values: groups.get(name)!.map((r) => Math.round(pagesPerSecond(r) * 100) / 100),
+    })),
+  });
+
+  const pageTotals = crawlers.map((name) =>
+    groups.get(name)!.flatMap((r) => r.results.map((item) => item.timings?.total).filter((t): t is number => t !== undefined)),
+  );
+  const bins = histogramBins(pageTotals);
+  const histogram = barChart({
+    title: "Per-page total time",
+    xLabel: "ms",
+    yLabel: "pages",
+    categories: bins.labels,
+    series: crawlers.map((name, index) => ({ name, values: bins.counts[index] })),
+  });
+
+  const statistics = report.statistics || [];
+  let body = configSection(report);
+  body += `<div class="charts">${durationChart}${memoryChart}${throughputChart}${histogram}</div>`;
+  body += sweepSection(report);
+  body += comparisonSection(report);
+  body += incrementalSection(report);
+  if (statistics.length > 0) {
+    body += `<h2>Statistics (measured iterations)</h2>${statisticsTable(statistics)}`;
+  }
+
+  const withTimings = statistics.filter((stats) => stats.timings);
+  if (withTimings.length > 0) {
+    const phases = ["queueWait", "fetch", "parse", "handler", "storage", "total"] as const;
+    body += `<h2>Per-page timings (ms, mean / p95)</h2>`;
+    body += table(
+      ["Phase", ...withTimings.map((stats) => stats.crawlerType)],
+      phases.map((phase) => [
+        phase,
+        ...withTimings.map((stats) => `${stats.timings!.phases[phase].mean} / ${stats.timings!.phases[phase].p95}`),
+      ]),
+    );
+  }
+
+  return body;
+}
+
+/**
+ * History view over several stored reports, one chart set per scenario
+ */
+export function generateHistoryHtml(reports: LoadedReport[]): string {
+  const sorted = [...reports].sort((a, b) => a.report.timestamp.localeCompare(b.report.timestamp));
+  const scenarios = [...new Set(sorted.map((loaded) => scenarioKey(loaded.report.config)))];
+
+  let body = `<p class="meta">${sorted.length} reports from ${escapeHtml(sorted[0]?.report.timestamp || "-")} ` +
+    `to ${escapeHtml(sorted[sorted.length - 1]?.report.timestamp || "-")}</p>`;
+
+  for (const scenario of scenarios) {
+    const runs = sorted.filter((loaded) => scenarioKey(loaded.report.config) === scenario);
+    const labels = runs.map((loaded) => loaded.report.timestamp.slice(0, 16).replace("T", " "));
+    const crawlers = [...new Set(runs.flatMap((loaded) => loaded.report.results.filter((r) => !r.warmup).map((r) => r.crawlerType)))];
+
+    // Recomputed from results, so reports written before statistics existed still show up
+    const statsPerRun = runs.map(
+      (loaded) => new Map([...groupByCrawler(loaded.report.results)].map(([name, results]) => [name, computeStatistics(results)])),
+    );
+    const series = (pick: (stats: CrawlerStatistics) => number): LineSeries[] =>
+      crawlers.map((name) => ({
+        name,
+        points: statsPerRun.flatMap((stats, index) => {
+          const crawlerStats = stats.get(name);
+          return crawlerStats ? [[index, pick(crawlerStats)] as [number, number]] : [];
+        }),
+      }));
+
+    body += `<h2>${escapeHtml(scenario)}</h2><div class="charts">`;
+    body += lineChart({ title: "Mean duration", yLabel: "ms", series: series((s) => s.duration.mean), xLabels: labels });
+    body += lineChart({ title: "Mean pages per second", yLabel: "pages/s", series: series((s) => s.pagesPerSecond.mean), xLabels: labels });
+    body += lineChart({ title: "Mean memory", yLabel: "MB", series: series((s) => s.memoryUsed.mean), xLabels: labels });
+    body += `</div>`;
+
+    body += table(
+      ["Run", "Versions", ...crawlers.map((name) => `${name} ms`)],
+      runs.map((loaded, index) => [
+        basename(loaded.path),
+        loaded.report.environment
+          ? `crawlee ${loaded.report.environment.crawlee || "?"}, playwright ${loaded.report.environment.playwright || "?"}`
+          : "-",
+        ...crawlers.map((name) => statsPerRun[index].get(name)?.duration.mean ?? "-"),
+      ]),
+    );
+  }
+
+  return page("Crawlee Benchmark History", body);
+}
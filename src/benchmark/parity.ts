@@ -0,0 +1,213 @@
+/**
+ * Output parity between two crawlers
+ *
+ * Speed only matters if the faster crawler scrapes the same thing. Pages are
+ * matched by normalized URL and compared by title, visible text, links and
+ * extractor results; pages where one side lacks content are flagged, which
+ * is how a non-browser crawler shows up on JavaScript-rendered sites.
+ */
+
+import { load } from "cheerio";
+import type { BenchmarkResult, CrawlResult, OutputParity, PageParity } from "../types/benchmark.types.js";
+import { extractLinks } from "../extractors/links.js";
+
+export const DEFAULT_SIMILARITY_THRESHOLD = 0.9;
+
+/** Below this share of the other side's words, a page counts as missing content */
+const CONTENT_RATIO = 0.8;
+
+interface PageSummary {
+  title: string;
+  words: Set<string>;
+  wordCount: number;
+  links: number;
+  /** Has scripts other than JSON-LD */
+  scripts: boolean;
+}
+
+const summaries = new WeakMap<CrawlResult, PageSummary>();
+
+/**
+ * Similarity threshold from PARITY_SIMILARITY_THRESHOLD, or the default
+ */
+export function similarityThresholdFromEnv(): number {
+  const value = process.env.PARITY_SIMILARITY_THRESHOLD;
+  const parsed = value === undefined || value === "" ? NaN : Number(value);
+  return parsed >= 0 && parsed <= 1 ? parsed : DEFAULT_SIMILARITY_THRESHOLD;
+}
+
+/**
+ * URL key pages are matched by: no fragment, sorted query, no trailing slash
+ */
+export function normalizeUrl(url: string): string {
+  try {
+    const parsed = new URL(url);
+    parsed.hash = "";
+    parsed.searchParams.sort();
+    if (parsed.pathname.length > 1 && parsed.pathname.endsWith("/")) {
+      parsed.pathname = parsed.pathname.slice(0, -1);
+    }
+    return parsed.href;
+  } catch {
+    return url;
+  }
+}
+
+function summarize(page: CrawlResult): PageSummary {
+  const cached = summaries.get(page);
+  if (cached) {
+    return cached;
+  }
+
+  const $ = load(page.htmlContent || "");
+  const scripts = $("script").not('[type="application/ld+json"]').length > 0;
+  const links = extractLinks($, page.url).length;
+  $("script, style, noscript, template").remove();
+  const words = ($("body").text().toLowerCase().match(/[\p{L}\p{N}]+/gu) || []) as string[];
+
+  const title = page.title.replace(/\s+/g, " ").trim();
+  const summary = { title, words: new Set(words), wordCount: words.length, links, scripts };
+  summaries.set(page, summary);
+  return summary;
+}
+
+function jaccard(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0 && b.size === 0) {
+    return 1;
+  }
+  let shared = 0;
+  for (const word of a) {
+    if (b.has(word)) shared++;
+  }
+  return shared / (a.size + b.size - shared);
+}
+
+function round(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
+
+/**
+ * Pages of all iterations by normalized URL; the first copy of a page wins
+ * Pages that answered 304 to an incremental recrawl have no content to compare and are left out.
+ */
+function pagesByUrl(results: BenchmarkResult[]): Map<string, CrawlResult> {
+  const pages = new Map<string, CrawlResult>();
+  for (const page of results.flatMap((result) => result.results)) {
+    const key = normalizeUrl(page.url);
+    if (!pages.has(key) && page.metadata.statusCode !== 304) {
+      pages.set(key, page);
+    }
+  }
+  return pages;
+}
+
+function countMissing(words: Set<string>, other: Set<string>): number {
+  let missing = 0;
+  for (const word of other) {
+    if (!words.has(word)) missing++;
+  }
+  return missing;
+}
+
+/**
+ * Fewer links, far fewer words, or only a subset of the other copy's words
+ */
+function lacksContent(page: PageSummary, other: PageSummary): boolean {
+  const subset = countMissing(page.words, other.words) > 0 && countMissing(other.words, page.words) === 0;
+  return page.links < other.links || page.wordCount < other.wordCount * CONTENT_RATIO || subset;
+}
+
+function comparePage(
+  url: string,
+  crawlers: [string, string],
+  pageA: CrawlResult,
+  pageB: CrawlResult,
+  threshold: number,
+): PageParity {
+  const a = summarize(pageA);
+  const b = summarize(pageB);
+  const titleMatch = a.title === b.title;
+  const textSimilarity = round(jaccard(a.words, b.words));
+
+  const parity: PageParity = {
+    url,
+    titleA: a.title,
+    titleB: b.title,
+    titleMatch,
+    textSimilarity,
+    wordsA: a.wordCount,
+    wordsB: b.wordCount,
+    linksA: a.links,
+    linksB: b.links,
+  };
+  if (pageA.data && pageB.data) {
+    parity.dataMatch = JSON.stringify(pageA.data) === JSON.stringify(pageB.data);
+  }
+
+  if (!titleMatch || textSimilarity < threshold) {
+    const lacking = lacksContent(a, b) ? 0 : lacksContent(b, a) ? 1 : undefined;
+    if (lacking !== undefined) {
+      parity.missingContent = crawlers[lacking];
+      parity.likelyJsRendered = (lacking === 0 ? a : b).scripts;
+    }
+  }
+  return parity;
+}
+
+function differs(page: PageParity, threshold: number): boolean {
+  return (
+    !page.titleMatch ||
+    page.textSimilarity < threshold ||
+    page.linksA !== page.linksB ||
+    page.dataMatch === false ||
+    page.missingContent !== undefined
+  );
+}
+
+/**
+ * Compare what two crawlers scraped over their measured iterations
+ */
+export function compareOutputs(
+  a: BenchmarkResult[],
+  b: BenchmarkResult[],
+  threshold = similarityThresholdFromEnv(),
+): OutputParity {
+  const crawlers: [string, string] = [a[0].crawlerType, b[0].crawlerType];
+  const pagesA = pagesByUrl(a);
+  const pagesB = pagesByUrl(b);
+
+  const matched = [...pagesA.keys()]
+    .filter((url) => pagesB.has(url))
+    .map((url) => comparePage(url, crawlers, pagesA.get(url)!, pagesB.get(url)!, threshold));
+  const similarities = matched.map((page) => page.textSimilarity);
+  const meanTextSimilarity =
+    matched.length > 0 ? round(similarities.reduce((sum, value) => sum + value, 0) / matched.length) : 1;
+
+  const titleMismatches = matched.filter((page) => !page.titleMatch).length;
+  const missingContent = matched.filter((page) => page.missingContent !== undefined);
+  const onlyA = [...pagesA.keys()].filter((url) => !pagesB.has(url)).sort();
+  const onlyB = [...pagesB.keys()].filter((url) => !pagesA.has(url)).sort();
+  const dataMismatches = matched.filter((page) => page.dataMatch === false).length;
+
+  return {
+    matched: matched.length,
+    onlyA,
+    onlyB,
+    titleMismatches,
+    meanTextSimilarity,
+    minTextSimilarity: matched.length > 0 ? Math.min(...similarities) : 1,
+    linkCountDifference: matched.reduce((sum, page) => sum + page.linksB - page.linksA, 0),
+    dataMismatches,
+    missingContent: missingContent.length,
+    likelyJsRendered: missingContent.filter((page) => page.likelyJsRendered).length,
+    similarityThreshold: threshold,
+    equivalent:
+      onlyA.length === 0 &&
+      onlyB.length === 0 &&
+      titleMismatches === 0 &&
+      dataMismatches === 0 &&
+      missingContent.length === 0 &&
+      meanTextSimilarity >= threshold,
+    pages: matched.filter((page) => differs(page, threshold)),
+  };
+}
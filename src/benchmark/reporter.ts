@@ -2,7 +2,226 @@
  * Benchmark report generator
  */
 
-import type { BenchmarkResult, BenchmarkConfig, BenchmarkReport, ComparisonResult } from "../types/benchmark.types.js";
+import type {
+  BenchmarkResult,
+  BenchmarkConfig,
+  BenchmarkReport,
+  ComparisonMatrix,
+  ConcurrencySweep,
+  CrawlerStatistics,
+  IncrementalSavings,
+  MetricSummary,
+  PairwiseComparison,
+  TimingPhase,
+  TimingStatistics,
+} from "../types/benchmark.types.js";
+import type { ChangeSummary, NavigationTimings, PageTimings, PageTraffic } from "../types/crawler.types.js";
+import type { LocalProxyStats } from "../types/fixture.types.js";
+import type { HistoryComparison } from "../types/history.types.js";
+import { summarize, welchTTest } from "./statistics.js";
+import { detectEnvironment } from "./environment.js";
+import { compareOutputs } from "./parity.js";
+import { ERROR_CLASSES } from "../crawlers/retries.js";
+
+/**
+ * Extra input for formatters besides the report itself
+ */
+export interface FormatContext {
+  /** Regression check of this run against baseline reports, when a baseline was given */
+  comparison?: HistoryComparison;
+}
+
+/**
+ * Renders the reports of one invocation (one per scenario) into one output file
+ * Register implementations in `formatters/index.ts` to make them available to `--format`.
+ */
+export interface ReportFormatter {
+  /** Name used with `--format` */
+  name: string;
+  /** File extension of the output, without the dot */
+  extension: string;
+  format(reports: BenchmarkReport[], context: FormatContext): string;
+}
+
+/**
+ * Pages per second of a single run
+ */
+export function pagesPerSecond(result: BenchmarkResult): number {
+  return result.metrics.duration > 0 ? result.metrics.pagesProcessed / (result.metrics.duration / 1000) : 0;
+}
+
+const TIMING_PHASES: TimingPhase[] = ["queueWait", "fetch", "parse", "handler", "storage", "total"];
+const NAVIGATION_EVENTS: (keyof NavigationTimings)[] = ["domContentLoaded", "load", "networkIdle"];
+
+/**
+ * Aggregate per-page timings of all pages in the given runs
+ */
+export function computeTimingStatistics(results: BenchmarkResult[]): TimingStatistics | undefined {
+  const timings = results.flatMap((r) => r.results.map((page) => page.timings)).filter((t): t is PageTimings => !!t);
+  if (timings.length === 0) {
+    return undefined;
+  }
+
+  const phases = Object.fromEntries(
+    TIMING_PHASES.map((phase) => [phase, summarize(timings.map((t) => t[phase]))]),
+  ) as Record<TimingPhase, MetricSummary>;
+
+  const navigationTimings = timings.map((t) => t.navigation).filter((n): n is NavigationTimings => !!n);
+  const navigation =
+    navigationTimings.length > 0
+      ? (Object.fromEntries(
+          NAVIGATION_EVENTS.map((event) => [event, summarize(navigationTimings.map((n) => n[event]))]),
+        ) as Record<keyof NavigationTimings, MetricSummary>)
+      : undefined;
+
+  return { pages: timings.length, phases, navigation };
+}
+
+/**
+ * Describe the spread of one crawler's measured iterations
+ */
+export function computeStatistics(results: BenchmarkResult[]): CrawlerStatistics {
+  const measured = results.filter((r) => !r.warmup);
+
+  return {
+    crawlerType: results[0].crawlerType,
+    iterations: measured.length,
+    warmupIterations: results.length - measured.length,
+    duration: summarize(measured.map((r) => r.metrics.duration)),
+    memoryUsed: summarize(measured.map((r) => r.metrics.memoryUsed || 0)),
+    pagesPerSecond: summarize(measured.map(pagesPerSecond)),
+    timings: computeTimingStatistics(measured),
+  };
+}
+
+/**
+ * Throughput curve of one crawler's measured iterations over the concurrency levels they ran at
+ */
+export function computeConcurrencySweep(results: BenchmarkResult[]): ConcurrencySweep {
+  const measured = results.filter((r) => !r.warmup && r.concurrency !== undefined);
+  const concurrencies = [...new Set(measured.map((r) => r.concurrency!))].sort((a, b) => a - b);
+
+  const levels = concurrencies.map((concurrency) => {
+    const runs = measured.filter((r) => r.concurrency === concurrency);
+    return {
+      concurrency,
+      iterations: runs.length,
+      duration: summarize(runs.map((r) => r.metrics.duration)),
+      pagesPerSecond: summarize(runs.map(pagesPerSecond)),
+      pagesFailed: Math.round((runs.reduce((sum, r) => sum + r.metrics.pagesFailed, 0) / runs.length) * 100) / 100,
+    };
+  });
+  const best = levels.reduce((top, level) => (level.pagesPerSecond.mean > top.pagesPerSecond.mean ? level : top));
+
+  return { crawlerType: results[0].crawlerType, levels, best: best.concurrency };
+}
+
+const CHANGE_COUNTS: (keyof ChangeSummary)[] = ["new", "changed", "unchanged", "removed", "notModified", "unvisited"];
+
+/**
+ * Savings of one crawler's measured recrawls over its full crawl; undefined without both
+ */
+export function computeIncrementalSavings(results: BenchmarkResult[]): IncrementalSavings | undefined {
+  const full = results.find((r) => r.fullCrawl);
+  const measured = results.filter((r) => !r.warmup && r.metrics.changes);
+  if (!full || measured.length === 0) {
+    return undefined;
+  }
+  const mean = (values: number[]) => Math.round((values.reduce((sum, value) => sum + value, 0) / values.length) * 100) / 100;
+  const saved = (before: number, after: number) => (before > 0 ? Math.round((1 - after / before) * 1000) / 10 : 0);
+
+  const changes: ChangeSummary = { new: 0, changed: 0, unchanged: 0, removed: 0, notModified: 0, unvisited: 0 };
+  for (const key of CHANGE_COUNTS) {
+    changes[key] = mean(measured.map((r) => r.metrics.changes![key]));
+  }
+  const duration = mean(measured.map((r) => r.metrics.duration));
+  const fullBytes = full.metrics.bodyBytes || 0;
+  const bytes = mean(measured.map((r) => r.metrics.bodyBytes || 0));
+  return {
+    crawlerType: full.crawlerType,
+    fullDuration: full.metrics.duration,
+    duration,
+    durationSaved: saved(full.metrics.duration, duration),
+    fullBytes,
+    bytes,
+    bytesSaved: saved(fullBytes, bytes),
+    changes,
+  };
+}
+
+/**
+ * Average browser traffic of the results that recorded it
+ */
+function averageTraffic(results: BenchmarkResult[]): Pick<BenchmarkResult["metrics"], "traffic"> {
+  const traffic = results.map((r) => r.metrics.traffic).filter((t): t is PageTraffic => !!t);
+  if (traffic.length === 0) {
+    return {};
+  }
+  const average = (values: number[]) => Math.round(values.reduce((sum, value) => sum + value, 0) / traffic.length);
+  const types = [...new Set(traffic.flatMap((t) => Object.keys(t.blockedByType)))];
+
+  return {
+    traffic: {
+      requests: average(traffic.map((t) => t.requests)),
+      bytes: average(traffic.map((t) => t.bytes)),
+      blocked: average(traffic.map((t) => t.blocked)),
+      blockedByType: Object.fromEntries(types.map((type) => [type, average(traffic.map((t) => t.blockedByType[type] || 0))])),
+    },
+  };
+}
+
+/**
+ * Average pages per proxy, local proxy traffic and sessions used, over the results that used proxies or sessions
+ */
+function averageProxyUsage(
+  results: BenchmarkResult[],
+): Pick<BenchmarkResult["metrics"], "proxies" | "proxyTraffic" | "sessions"> {
+  const proxied = results.filter((r) => r.metrics.proxies);
+  const sessions = results.map((r) => r.metrics.sessions).filter((count): count is number => count !== undefined);
+  const urls = [...new Set(proxied.flatMap((r) => Object.keys(r.metrics.proxies!)))];
+  const average = (values: number[]) => Math.round((values.reduce((sum, value) => sum + value, 0) / values.length) * 100) / 100;
+  const measured = results.filter((r) => r.metrics.proxyTraffic);
+  const localUrls = [...new Set(measured.flatMap((r) => Object.keys(r.metrics.proxyTraffic!)))];
+  const averageTraffic = (url: string, key: keyof LocalProxyStats) =>
+    average(measured.map((r) => r.metrics.proxyTraffic![url]?.[key] || 0));
+
+  return {
+    ...(proxied.length > 0
+      ? { proxies: Object.fromEntries(urls.map((url) => [url, average(proxied.map((r) => r.metrics.proxies![url] || 0))])) }
+      : {}),
+    ...(measured.length > 0
+      ? {
+          proxyTraffic: Object.fromEntries(
+            localUrls.map((url) => [
+              url,
+              {
+                requests: averageTraffic(url, "requests"),
+                tunnels: averageTraffic(url, "tunnels"),
+                bytes: averageTraffic(url, "bytes"),
+              },
+            ]),
+          ),
+        }
+      : {}),
+    ...(sessions.length > 0 ? { sessions: average(sessions) } : {}),
+  };
+}
+
+/**
+ * Average failed pages per error class and retries, over all results
+ */
+function averageFailures(results: BenchmarkResult[]): Pick<BenchmarkResult["metrics"], "errorClasses" | "retries"> {
+  const average = (values: number[]) => Math.round((values.reduce((sum, value) => sum + value, 0) / results.length) * 100) / 100;
+  const classes = ERROR_CLASSES.filter((errorClass) => results.some((r) => r.metrics.errorClasses?.[errorClass]));
+  const retries = average(results.map((r) => r.metrics.retries || 0));
+
+  return {
+    ...(classes.length > 0
+      ? { errorClasses: Object.fromEntries(classes.map((c) => [c, average(results.map((r) => r.metrics.errorClasses?.[c] || 0))])) }
+      : {}),
+    ...(retries > 0 ? { retries } : {}),
+  };
+}
 
 /**
  * Calculate average metrics from multiple results
@@ -17,6 +236,7 @@ function averageResults(results: BenchmarkResult[]): BenchmarkResult["metrics"]
       duration: acc.duration + result.metrics.duration,
       pagesProcessed: acc.pagesProcessed + result.metrics.pagesProcessed,
       pagesFailed: acc.pagesFailed + result.metrics.pagesFailed,
+      pagesSkipped: acc.pagesSkipped + (result.metrics.pagesSkipped || 0),
       memoryUsed: (acc.memoryUsed || 0) + (result.metrics.memoryUsed || 0),
       errors: [...acc.errors, ...result.metrics.errors],
     }),
@@ -24,6 +244,7 @@ function averageResults(results: BenchmarkResult[]): BenchmarkResult["metrics"]
       duration: 0,
       pagesProcessed: 0,
       pagesFailed: 0,
+      pagesSkipped: 0,
       memoryUsed: 0,
       errors: [] as string[],
     },
@@ -33,43 +254,63 @@ function averageResults(results: BenchmarkResult[]): BenchmarkResult["metrics"]
     startTime: results[0].metrics.startTime,
     endTime: results[results.length - 1].metrics.endTime,
     duration: Math.round(sum.duration / results.length),
-    pagesProcessed: Math.round(sum.pagesProcessed / results.length),
-    pagesFailed: Math.round(sum.pagesFailed / results.length),
+    pagesProcessed: Math.round((sum.pagesProcessed / results.length) * 100) / 100,
+    pagesFailed: Math.round((sum.pagesFailed / results.length) * 100) / 100,
+    pagesSkipped: Math.round((sum.pagesSkipped / results.length) * 100) / 100,
     memoryUsed: Math.round((sum.memoryUsed / results.length) * 100) / 100,
+    ...averageTraffic(results),
+    ...averageProxyUsage(results),
+    ...averageFailures(results),
     errors: sum.errors,
   };
 }
 
 /**
- * Generate comparison between Playwright and Cheerio results
+ * Compare two crawlers' measured iterations
+ * Output parity needs the whole HTML, so it is left out when the runs dropped or truncated it.
  */
-function generateComparison(
-  playwrightResults: BenchmarkResult[],
-  cheerioResults: BenchmarkResult[],
-): ComparisonResult {
-  const playwrightAvg = averageResults(playwrightResults);
-  const cheerioAvg = averageResults(cheerioResults);
-
-  const playwrightResult: BenchmarkResult = {
-    ...playwrightResults[0],
-    metrics: playwrightAvg,
-  };
+function comparePair(a: BenchmarkResult[], b: BenchmarkResult[], compareOutput: boolean): PairwiseComparison {
+  const aAvg = averageResults(a);
+  const bAvg = averageResults(b);
 
-  const cheerioResult: BenchmarkResult = {
-    ...cheerioResults[0],
-    metrics: cheerioAvg,
+  return {
+    crawlerA: a[0].crawlerType,
+    crawlerB: b[0].crawlerType,
+    speedup: aAvg.duration / bAvg.duration,
+    memoryDifference: (bAvg.memoryUsed || 0) - (aAvg.memoryUsed || 0),
+    pagesDifference: bAvg.pagesProcessed - aAvg.pagesProcessed,
+    speedupSignificance: welchTTest(
+      a.map((r) => r.metrics.duration),
+      b.map((r) => r.metrics.duration),
+    ),
+    ...(aAvg.traffic && bAvg.traffic ? { bytesDifference: bAvg.traffic.bytes - aAvg.traffic.bytes } : {}),
+    ...(compareOutput ? { parity: compareOutputs(a, b) } : {}),
   };
+}
 
-  const speedup = playwrightAvg.duration / cheerioAvg.duration;
-  const memoryDifference = (cheerioAvg.memoryUsed || 0) - (playwrightAvg.memoryUsed || 0);
-  const pagesDifference = cheerioAvg.pagesProcessed - playwrightAvg.pagesProcessed;
+/**
+ * Generate the N-way comparison matrix
+ * Inputs are measured iterations only, grouped per crawler in run order
+ */
+function generateComparison(groups: BenchmarkResult[][], compareOutput: boolean): ComparisonMatrix {
+  const averages = groups.map((group) => ({ ...group[0], metrics: averageResults(group) }));
+
+  const pairs: PairwiseComparison[] = [];
+  for (let i = 0; i < groups.length; i++) {
+    for (let j = i + 1; j < groups.length; j++) {
+      pairs.push(comparePair(groups[i], groups[j], compareOutput));
+    }
+  }
+
+  const fastest = averages.reduce((best, result) =>
+    result.metrics.duration < best.metrics.duration ? result : best,
+  );
 
   return {
-    playwright: playwrightResult,
-    cheerio: cheerioResult,
-    speedup,
-    memoryDifference,
-    pagesDifference,
+    crawlers: averages.map((result) => result.crawlerType),
+    averages,
+    pairs,
+    fastest: fastest.crawlerType,
   };
 }
 
@@ -80,20 +321,35 @@ export function generateReport(
   results: BenchmarkResult[],
   config: BenchmarkConfig,
 ): BenchmarkReport {
-  const playwrightResults = results.filter((r) => r.crawlerType === "playwright");
-  const cheerioResults = results.filter((r) => r.crawlerType === "cheerio");
+  // Warm-up iterations are kept in `results` but never averaged or compared
+  const crawlerTypes = [...new Set(results.map((r) => r.crawlerType))];
+  const groups = crawlerTypes
+    .map((type) => results.filter((r) => r.crawlerType === type))
+    .filter((typeResults) => typeResults.some((r) => !r.warmup));
 
-  let comparison: ComparisonResult | undefined;
+  // A sweep is summarized per level; crawlers are compared at the highest level, which all of them ran
+  const sweep = results.some((r) => r.concurrency !== undefined) ? groups.map(computeConcurrencySweep) : undefined;
+  const highest = Math.max(...results.map((r) => r.concurrency ?? 0));
+  const compared = sweep
+    ? groups
+        .map((typeResults) => typeResults.filter((r) => r.concurrency === highest))
+        .filter((typeResults) => typeResults.some((r) => !r.warmup))
+    : groups;
 
-  if (playwrightResults.length > 0 && cheerioResults.length > 0) {
-    comparison = generateComparison(playwrightResults, cheerioResults);
-  }
+  const statistics = compared.map(computeStatistics);
+  const measuredGroups = compared.map((typeResults) => typeResults.filter((r) => !r.warmup));
+  const incremental = compared
+    .map(computeIncrementalSavings)
+    .filter((savings): savings is IncrementalSavings => savings !== undefined);
 
   return {
     timestamp: new Date().toISOString(),
     config,
+    environment: detectEnvironment(),
     results,
-    comparison,
+    statistics,
+    comparison: measuredGroups.length > 1 ? generateComparison(measuredGroups, !config.html) : undefined,
+    ...(sweep ? { sweep } : {}),
+    ...(incremental.length > 0 ? { incremental } : {}),
   };
 }
-
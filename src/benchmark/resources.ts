@@ -0,0 +1,196 @@
+/**
+ * Resource sampler for the benchmark process and its child processes
+ *
+ * On Linux, memory (RSS) and CPU time are read from /proc for the Node
+ * process and every descendant, so browsers launched by Playwright are
+ * included. Elsewhere only the Node process itself is measured.
+ */
+
+import { readdir, readFile } from "fs/promises";
+import type { ResourceSample, ResourceUsage } from "../types/benchmark.types.js";
+
+// Kernel defaults on virtually every Linux system (getconf PAGESIZE / CLK_TCK)
+const PAGE_SIZE_BYTES = 4096;
+const CLOCK_TICKS_PER_SECOND = 100;
+
+const BYTES_PER_MB = 1024 * 1024;
+
+interface ProcessStat {
+  pid: number;
+  ppid: number;
+  /** Own plus reaped children's CPU time in milliseconds */
+  cpuTime: number;
+  rssBytes: number;
+}
+
+interface Snapshot {
+  rssBytes: number;
+  cpuTime: number;
+  processes: number;
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Parse /proc/<pid>/stat
+ * The command name may contain spaces and parentheses, so fields are read after the last ")".
+ */
+function parseStat(pid: number, content: string): ProcessStat | undefined {
+  const fields = content.slice(content.lastIndexOf(")") + 2).split(" ");
+  if (fields.length < 22) {
+    return undefined;
+  }
+
+  // Offsets relative to field 3 (state): ppid=4, utime=14, stime=15, cutime=16, cstime=17, rss=24
+  const ticks = Number(fields[11]) + Number(fields[12]) + Number(fields[13]) + Number(fields[14]);
+  return {
+    pid,
+    ppid: Number(fields[1]),
+    cpuTime: (ticks * 1000) / CLOCK_TICKS_PER_SECOND,
+    rssBytes: Number(fields[21]) * PAGE_SIZE_BYTES,
+  };
+}
+
+async function readProcessStats(): Promise<ProcessStat[]> {
+  const entries = await readdir("/proc");
+  const stats = await Promise.all(
+    entries
+      .filter((entry) => /^\d+$/.test(entry))
+      .map(async (entry) => {
+        try {
+          return parseStat(Number(entry), await readFile(`/proc/${entry}/stat`, "utf8"));
+        } catch {
+          // The process exited between readdir and readFile
+          return undefined;
+        }
+      }),
+  );
+  return stats.filter((stat): stat is ProcessStat => stat !== undefined);
+}
+
+/**
+ * Sum RSS and CPU time of a process and all its descendants
+ */
+async function snapshotProcessTree(rootPid: number): Promise<Snapshot> {
+  const stats = await readProcessStats();
+  const children = new Map<number, ProcessStat[]>();
+  for (const stat of stats) {
+    const siblings = children.get(stat.ppid) || [];
+    siblings.push(stat);
+    children.set(stat.ppid, siblings);
+  }
+
+  const root = stats.find((stat) => stat.pid === rootPid);
+  const snapshot: Snapshot = { rssBytes: 0, cpuTime: 0, processes: 0 };
+  const pending = root ? [root] : [];
+  while (pending.length > 0) {
+    const stat = pending.pop()!;
+    snapshot.rssBytes += stat.rssBytes;
+    snapshot.cpuTime += stat.cpuTime;
+    snapshot.processes++;
+    pending.push(...(children.get(stat.pid) || []));
+  }
+
+  return snapshot;
+}
+
+function snapshotCurrentProcess(): Snapshot {
+  const cpu = process.cpuUsage();
+  return {
+    rssBytes: process.memoryUsage().rss,
+    cpuTime: (cpu.user + cpu.system) / 1000,
+    processes: 1,
+  };
+}
+
+/**
+ * Periodically samples memory and CPU of the process tree
+ */
+export class ResourceSampler {
+  private source: ResourceUsage["source"] = process.platform === "linux" ? "procfs" : "process";
+  private readonly samples: ResourceSample[] = [];
+  private timer?: NodeJS.Timeout;
+  private sampling?: Promise<void>;
+  private startTime = 0;
+  private startCpuTime = 0;
+  private maxCpuTime = 0;
+
+  constructor(private readonly intervalMs = 100) {}
+
+  /**
+   * Take the baseline sample and start sampling periodically
+   */
+  async start(): Promise<void> {
+    this.samples.length = 0;
+    this.startTime = Date.now();
+    const baseline = await this.snapshot();
+    this.startCpuTime = baseline.cpuTime;
+    this.maxCpuTime = baseline.cpuTime;
+    this.record(baseline);
+
+    this.timer = setInterval(() => {
+      // Skip a tick rather than overlap when /proc is slow to read
+      if (!this.sampling) {
+        this.sampling = this.sample().finally(() => {
+          this.sampling = undefined;
+        });
+      }
+    }, this.intervalMs);
+  }
+
+  /**
+   * Stop sampling, take a final sample and summarize the time series
+   */
+  async stop(): Promise<ResourceUsage> {
+    clearInterval(this.timer);
+    this.timer = undefined;
+    await this.sampling;
+    await this.sample();
+
+    const rssValues = this.samples.map((sample) => sample.rss);
+    const elapsed = Date.now() - this.startTime;
+    const cpuTime = this.maxCpuTime - this.startCpuTime;
+
+    return {
+      source: this.source,
+      sampleInterval: this.intervalMs,
+      startRss: rssValues[0],
+      peakRss: Math.max(...rssValues),
+      meanRss: round(rssValues.reduce((sum, value) => sum + value, 0) / rssValues.length),
+      finalRss: rssValues[rssValues.length - 1],
+      cpuTime: round(cpuTime),
+      cpuPercent: elapsed > 0 ? round((cpuTime / elapsed) * 100) : 0,
+      peakProcesses: Math.max(...this.samples.map((sample) => sample.processes)),
+      samples: [...this.samples],
+    };
+  }
+
+  private async snapshot(): Promise<Snapshot> {
+    if (this.source === "procfs") {
+      try {
+        return await snapshotProcessTree(process.pid);
+      } catch {
+        // /proc not mounted (e.g. some sandboxes), fall back to the Node-only view
+        this.source = "process";
+      }
+    }
+    return snapshotCurrentProcess();
+  }
+
+  private async sample(): Promise<void> {
+    this.record(await this.snapshot());
+  }
+
+  private record(snapshot: Snapshot): void {
+    // CPU time of exited, not yet reaped processes drops out of the tree, so keep it monotonic
+    this.maxCpuTime = Math.max(this.maxCpuTime, snapshot.cpuTime);
+    this.samples.push({
+      elapsed: Date.now() - this.startTime,
+      rss: round(snapshot.rssBytes / BYTES_PER_MB),
+      cpuTime: round(this.maxCpuTime - this.startCpuTime),
+      processes: snapshot.processes,
+    });
+  }
+}
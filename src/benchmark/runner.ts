@@ -1,16 +1,74 @@
 /**
- * Benchmark runner for comparing Playwright and Cheerio crawlers
+ * Benchmark runner for comparing Crawlee crawler backends
  */
 
 import "dotenv/config";
 import { Command } from "commander";
+import { createCrawler, getCrawlerNames } from "../crawlers/registry.js";
+import type {
+  BenchmarkConfig,
+  BenchmarkMode,
+  BenchmarkReport,
+  BenchmarkResult,
+  BenchmarkMetrics,
+} from "../types/benchmark.types.js";
+import type { PageCountExpectation, TestScenario } from "../types/scenario.types.js";
+import { generateReport, type FormatContext } from "./reporter.js";
+import { getFormatter, getFormatterNames } from "./formatters/index.js";
+import {
+  formatBrowser,
+  formatChanges,
+  formatConcurrency,
+  formatFailed,
+  formatHtmlContent,
+  formatLinkOptions,
+  formatPageLoad,
+  formatProxy,
+  formatProxyTraffic,
+  formatProxyUsage,
+  formatRetries,
+  formatSessions,
+  formatSkipped,
+  formatTraffic,
+  printSummary,
+} from "./formatters/text.js";
+import { ResourceSampler } from "./resources.js";
+import { copyFileSync, existsSync, mkdirSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join, resolve } from "path";
+import { pathToFileURL } from "url";
+import { loadScenarios, selectScenarios } from "../scenarios/loader.js";
+import { getExtractor, getExtractorNames } from "../extractors/registry.js";
+import { createCssExtractor, loadCssRules } from "../extractors/css.js";
+import type { Extractor } from "../types/extractor.types.js";
+import type {
+  BrowserEngine,
+  BrowserOptions,
+  ErrorClass,
+  HtmlContentOptions,
+  LinkOptions,
+  LinkStrategy,
+  PageLoadOptions,
+  PageTraffic,
+  ProxyOptions,
+  RetryOptions,
+  SessionOptions,
+  WaitUntil,
+} from "../types/crawler.types.js";
+import { LINK_STRATEGIES, parseUrlPattern } from "../crawlers/link-rules.js";
+import { WAIT_UNTIL_EVENTS } from "../playwright/page-load.js";
 import { PlaywrightCrawlerImpl } from "../playwright/crawler.js";
-import { CheerioCrawlerImpl } from "../cheerio/crawler.js";
-import type { BenchmarkConfig, BenchmarkResult, BenchmarkMetrics } from "../types/benchmark.types.js";
-import { generateReport } from "./reporter.js";
-import { writeFileSync, mkdirSync } from "fs";
-import { join } from "path";
-import { SCENARIOS, getScenario, type TestScenario } from "../scenarios/basic.js";
+import { AdaptivePlaywrightCrawlerImpl } from "../adaptive/crawler.js";
+import { BROWSER_ENGINES, getLaunchProfileNames, parseViewport, resolveBrowserOptions } from "../playwright/launch-profiles.js";
+import { FixtureServer } from "../fixtures/server.js";
+import { LocalProxy, isLocalProxyUrl } from "../fixtures/proxy.js";
+import { DIRECT_CONNECTION, parseProxyTier, parseProxyUrl, redactProxyOptions } from "../crawlers/proxies.js";
+import { classifyError } from "../crawlers/retries.js";
+import { isFixtureUrl } from "../fixtures/sites.js";
+import { loadUrlList, resolveUrls } from "./url-list.js";
+import { checkRunId } from "../storage/run-storage.js";
+import { loadReport, type LoadedReport } from "../history/store.js";
+import { compareReports, thresholdsFromEnv } from "../history/compare.js";
 
 const program = new Command();
 
@@ -19,8 +77,10 @@ const defaultUrl = process.env.BENCHMARK_URL || "https://example.com";
 const defaultMaxPages = process.env.BENCHMARK_MAX_PAGES || "10";
 const defaultMaxDepth = process.env.BENCHMARK_MAX_DEPTH || "2";
 const defaultIterations = process.env.BENCHMARK_ITERATIONS || "1";
+const defaultWarmup = process.env.BENCHMARK_WARMUP_ITERATIONS || "0";
 const defaultTimeout = process.env.BENCHMARK_TIMEOUT || "30000";
 const defaultCrawler = process.env.BENCHMARK_CRAWLER || "both";
+const defaultFormats = process.env.BENCHMARK_FORMATS || "text,html";
 
 // Debug: Log environment variables to verify they are loaded
 if (process.env.BENCHMARK_URL) {
@@ -29,99 +89,323 @@ if (process.env.BENCHMARK_URL) {
 
 program
   .name("benchmark")
-  .description("Run benchmarks comparing Playwright and Cheerio crawlers")
-  .option("-u, --url <url>", "URL to crawl", defaultUrl)
+  .description("Run benchmarks comparing Crawlee crawler backends")
+  .option("-u, --url <url>", "URL to crawl (or fixture://<site>?<options> for a local fixture site)", defaultUrl)
   .option("-p, --max-pages <number>", "Maximum pages to crawl", defaultMaxPages)
   .option("-d, --max-depth <number>", "Maximum crawl depth", defaultMaxDepth)
   .option("-i, --iterations <number>", "Number of iterations", defaultIterations)
+  .option("-w, --warmup <number>", "Warm-up iterations per crawler, excluded from statistics", defaultWarmup)
   .option("-t, --timeout <number>", "Timeout in milliseconds", defaultTimeout)
-  .option("-c, --crawler <type>", "Crawler type: playwright, cheerio, or both", defaultCrawler)
-  .option("-s, --scenario <name>", "Use predefined scenario (simple-static, medium-site, documentation)")
+  .option("--max-concurrency <number>", "Max concurrency for every crawler (default: CRAWLER_MAX_CONCURRENCY_* from .env)")
+  .option("--min-concurrency <number>", "Concurrency autoscaling starts from and never drops below (default: 1)")
+  .option("--no-autoscale", "Run at max concurrency throughout instead of scaling with system load")
+  .option("--max-requests-per-minute <number>", "Requests started per minute at most")
+  .option("--host-delay <ms>", "Minimum milliseconds between requests to the same host")
+  .option("--concurrency-sweep <levels>", "Comma-separated concurrency levels to run every crawler at, e.g. 1,2,5,10")
+  .option(
+    "-c, --crawler <types>",
+    `Comma-separated crawlers (${getCrawlerNames().join(", ")}), "both" (playwright,cheerio) or "all"`,
+    defaultCrawler,
+  )
+  .option("-m, --mode <mode>", "Benchmark mode: crawl (follow links from --url) or scrap (fetch a fixed URL list)")
+  .option("--urls-file <path>", "URL list for scrap mode: plain text, JSON Lines or sitemap XML")
+  .option("-s, --scenario <names>", "Comma-separated scenarios to run (see --list-scenarios)")
+  .option("--tag <tags>", "Run every scenario with one of these comma-separated tags")
+  .option("--scenarios-dir <dir>", "Directory of YAML/JSON scenario files", process.env.BENCHMARK_SCENARIOS_DIR || "scenarios")
+  .option("-e, --extract <names>", 'Comma-separated extractors to run on every page (see README) or "all"')
+  .option("--css-rules <file>", "JSON/YAML file of CSS selector rules for the css extractor")
+  .option("--respect-robots", "Obey robots.txt disallow rules and crawl-delay")
+  .option("--robots-user-agent <agent>", 'User agent robots.txt groups are matched against (default: "*")')
+  .option("--sitemaps", "Seed crawls with the URLs of the site's sitemaps (robots.txt or /sitemap.xml)")
+  .option("--strategy <strategy>", `Links to follow: ${LINK_STRATEGIES.join(", ")} (default: same-domain)`)
+  .option("--include <patterns...>", "Only follow links matching one of these globs or /regex/ patterns")
+  .option("--exclude <patterns...>", "Never follow links matching one of these globs or /regex/ patterns")
+  .option(
+    "--strip-params <names>",
+    'Comma-separated query parameters to remove from links ("utm_*" wildcards, "tracking" for common trackers)',
+  )
+  .option("--keep-fragments", "Treat URLs that differ only in the #fragment as different pages")
+  .option("--max-links-per-page <number>", "Follow at most this many links per page")
+  .option("--block-resources <types>", "Comma-separated resource types browsers abort, e.g. image,font,stylesheet,media")
+  .option("--block-urls <patterns...>", "Requests browsers abort, as globs or /regex/ patterns")
+  .option("--wait-until <event>", `Event browser navigation waits for: ${WAIT_UNTIL_EVENTS.join(", ")} (default: load)`)
+  .option("--wait-for-selector <selector>", "CSS selector browsers wait for after navigation")
+  .option("--browser <engine>", `Browser engine: ${BROWSER_ENGINES.join(", ")} (default: from .env or chromium)`)
+  .option("--launch-profile <name>", `Browser launch profile: ${getLaunchProfileNames().join(", ")} (default: from .env or default)`)
+  .option("--launch-args <args>", 'Space-separated browser arguments added to the profile\'s, e.g. "--disable-gpu --lang=de"')
+  .option("--headed", "Show the browser window")
+  .option("--viewport <size>", "Browser viewport as WIDTHxHEIGHT, e.g. 1280x720")
+  .option("--user-agent <agent>", "Browser user agent")
+  .option("--locale <locale>", "Browser locale, e.g. en-US")
+  .option("--proxy <urls...>", 'Proxy URLs to rotate; "local" or "local?latency=<ms>" starts a local forwarding proxy')
+  .option("--proxy-tiers <tiers...>", `Proxy tiers, each a comma-separated URL list ("${DIRECT_CONNECTION}" for no proxy)`)
+  .option("--max-sessions <number>", "Maximum number of sessions in the session pool")
+  .option("--retire-on-status <codes>", "Comma-separated status codes that retire a session (default: 401,403,429)")
+  .option("--no-persist-cookies", "Do not keep cookies per session")
+  .option("--max-retries <number>", "Retries per failed request after the first attempt (default: 3)")
+  .option("--backoff <ms>", "Milliseconds to wait before the first retry, doubled for every further one")
+  .option("--retry-on-status <codes>", "Comma-separated status codes that fail a page so it is retried, e.g. 404,429")
+  .option("--incremental", "Crawl in full once per crawler, then measure incremental recrawls against that crawl's page state")
+  .option("--max-html-length <chars>", "Keep at most this many characters of each page's HTML in results; 0 keeps none")
+  .option("--sample-interval <ms>", "Resource sampling interval in milliseconds", "100")
+  .option("--keep-storage", "Keep each run's dataset and request queue on disk for inspection")
+  .option("--storage-dir <dir>", "Directory for kept storage", process.env.CRAWLEE_STORAGE_DIR || "storage")
+  .option("--run-id <id>", "Keep each run's storage under this ID; running again with the same ID resumes unfinished runs and redoes finished ones")
+  .option(
+    "-f, --format <formats>",
+    "Comma-separated report formats besides JSON (text, html, markdown, csv, junit, jsonl)",
+    defaultFormats,
+  )
+  .option("--baseline <files...>", "Baseline reports to check this run against for regressions (COMPARE_* thresholds)")
+  .option("--require <modules...>", "Modules to import first, e.g. to register extra crawlers or formatters")
   .option("--list-scenarios", "List all available scenarios and exit")
   .parse(process.argv);
 
 const options = program.opts();
 
 /**
- * Get memory usage in MB
- * Returns heap used memory
+ * Addresses actually requested, after resolving fixture sites and relative list entries,
+ * and the proxies with local proxies started
  */
-function getMemoryUsage(): number {
-  if (typeof process.memoryUsage === "function") {
-    const usage = process.memoryUsage();
-    return Math.round((usage.heapUsed / 1024 / 1024) * 100) / 100;
-  }
-  return 0;
+interface BenchmarkTarget {
+  url: string;
+  urls: string[];
+  proxy?: ProxyOptions;
+  /** Started local proxies, whose traffic is counted per run */
+  localProxies?: LocalProxy[];
 }
 
 /**
- * Get peak memory usage during execution
- * This is a simple approximation - tracks the maximum memory seen
+ * Page state file of a run in an incremental benchmark, and whether the run is the full crawl that writes it
  */
-let peakMemory = 0;
-function trackPeakMemory(): void {
-  const current = getMemoryUsage();
-  if (current > peakMemory) {
-    peakMemory = current;
-  }
+interface IncrementalRun {
+  stateFile: string;
+  fullCrawl: boolean;
+}
+
+/**
+ * Whether a page count is within the expected range
+ */
+function meetsExpectation(pages: number, expected: PageCountExpectation): boolean {
+  return (expected.min === undefined || pages >= expected.min) && (expected.max === undefined || pages <= expected.max);
+}
+
+function formatExpectation(expected: PageCountExpectation): string {
+  if (expected.min === expected.max) return String(expected.min);
+  if (expected.max === undefined) return `at least ${expected.min}`;
+  if (expected.min === undefined) return `at most ${expected.max}`;
+  return `${expected.min}-${expected.max}`;
+}
+
+/**
+ * Expand the --crawler value into registered crawler names
+ */
+function parseCrawlerList(value: string): string[] {
+  const names = value
+    .split(",")
+    .map((name) => name.trim().toLowerCase())
+    .filter((name) => name !== "")
+    .flatMap((name) => {
+      if (name === "both") return ["playwright", "cheerio"];
+      if (name === "all") return getCrawlerNames();
+      return [name];
+    });
+  return [...new Set(names)];
+}
+
+/**
+ * Expand extractor names, "all" meaning every registered extractor
+ */
+function parseExtractorList(names: string[]): string[] {
+  const expanded = names.flatMap((name) => (name === "all" ? getExtractorNames() : [name]));
+  return [...new Set(expanded)];
+}
+
+/**
+ * Extractors configured for a benchmark
+ */
+function createExtractors(config: BenchmarkConfig): Extractor[] {
+  return [
+    ...(config.extract || []).map(getExtractor),
+    ...(config.cssRules ? [createCssExtractor(config.cssRules)] : []),
+  ];
 }
 
 /**
  * Run a single benchmark iteration
  */
 async function runBenchmark(
-  crawlerType: "playwright" | "cheerio",
+  crawlerType: string,
   config: BenchmarkConfig,
   iteration: number,
+  target: BenchmarkTarget = { url: config.url, urls: config.urls || [config.url] },
+  warmup = false,
+  concurrency?: number,
+  incremental?: IncrementalRun,
 ): Promise<BenchmarkResult> {
-  console.log(`\n[${crawlerType.toUpperCase()}] Starting iteration ${iteration + 1}/${config.iterations || 1}`);
+  const total = warmup ? config.warmupIterations || 0 : config.iterations || 1;
+  const level = concurrency !== undefined ? ` at concurrency ${concurrency}` : "";
+  const run = incremental?.fullCrawl ? "full crawl" : `${warmup ? "warm-up" : "iteration"} ${iteration + 1}/${total}`;
+  console.log(`\n[${crawlerType.toUpperCase()}] Starting ${run}${level}`);
 
-  const crawler =
-    crawlerType === "playwright" ? new PlaywrightCrawlerImpl() : new CheerioCrawlerImpl();
+  const crawler = createCrawler(crawlerType);
+
+  // Samples RSS and CPU of this process and its children (e.g. browsers) during the run
+  const sampler = new ResourceSampler(parseInt(options.sampleInterval, 10));
+  await sampler.start();
 
   const startTime = Date.now();
-  const startMemory = getMemoryUsage();
-  peakMemory = startMemory; // Reset peak memory for this iteration
   const errors: string[] = [];
 
-  // Track memory periodically during execution
-  const memoryInterval = setInterval(() => {
-    trackPeakMemory();
-  }, 100); // Check every 100ms
-
   try {
-    const result = await crawler.crawl(config.url, {
+    // Scenario overrides; without them each crawler keeps its own default concurrency.
+    // A sweep level is a fixed concurrency, so autoscaling is off for it.
+    const overrides = config.crawlerOptions?.[crawlerType];
+    const maxConcurrency = concurrency ?? overrides?.maxConcurrency ?? config.concurrency;
+    const crawlerOptions = {
       maxPages: config.maxPages,
       maxDepth: config.maxDepth,
-      timeout: config.timeout,
-    });
-
-    clearInterval(memoryInterval);
-    trackPeakMemory(); // Final check
+      timeout: overrides?.timeout ?? config.timeout,
+      ...(maxConcurrency !== undefined ? { maxConcurrency } : {}),
+      ...(config.minConcurrency ? { minConcurrency: config.minConcurrency } : {}),
+      autoscale: concurrency === undefined && config.autoscale !== false,
+      maxRequestsPerMinute: config.maxRequestsPerMinute,
+      hostDelay: config.hostDelay,
+      storage: {
+        keep: config.keepStorage,
+        directory: options.storageDir,
+        ...(options.runId
+          ? {
+              runId: benchmarkRunId(
+                scenarioRunId(options.runId, config),
+                crawlerType,
+                incremental?.fullCrawl ? "full" : `${warmup ? "w" : ""}${iteration + 1}`,
+                concurrency,
+              ),
+            }
+          : {}),
+      },
+      extractors: createExtractors(config),
+      respectRobotsTxt: config.respectRobotsTxt,
+      robotsUserAgent: config.robotsUserAgent,
+      sitemaps: config.sitemaps,
+      links: config.links,
+      pageLoad: config.pageLoad,
+      browser: config.browser,
+      proxy: target.proxy,
+      sessions: config.sessions,
+      retries: config.retries,
+      ...(incremental ? { incremental: { stateFile: incremental.stateFile } } : {}),
+      html: config.html,
+    };
+    // Proxy traffic is counted per run; the proxies are shared by all crawlers
+    target.localProxies?.forEach((localProxy) => localProxy.resetStats());
+    const result =
+      config.mode === "scrap"
+        ? await crawler.scrap(target.urls, crawlerOptions)
+        : await crawler.crawl(target.url, crawlerOptions);
 
     const endTime = Date.now();
-    const endMemory = getMemoryUsage();
     const duration = endTime - startTime;
+    const resources = await sampler.stop();
 
-    // Use peak memory minus start memory, but ensure it's never negative
-    // This represents the maximum additional memory used during execution
-    const memoryDelta = Math.max(0, peakMemory - startMemory);
-    // Also report final memory for reference
-    const finalMemory = endMemory;
+    // Peak increase over the baseline, i.e. the additional memory needed by the crawl
+    const memoryDelta = Math.max(0, Math.round((resources.peakRss - resources.startRss) * 100) / 100);
+
+    // Per-request failures come from the crawler, not from whether the whole crawl threw
+    errors.push(...result.failures.map((failure) => `${failure.url}: ${failure.error}`));
+
+    const pagesSkipped = Object.values(result.metadata.skipped).reduce((sum, count) => sum + count, 0);
+    const traffic = sumTraffic(result.items.map((item) => item.metadata.traffic));
+    const proxies = countBy(result.items.map((item) => item.metadata.proxyUrl));
+    const proxyTraffic = target.localProxies?.length
+      ? Object.fromEntries(target.localProxies.map((localProxy) => [localProxy.url, { ...localProxy.stats }]))
+      : undefined;
+    const sessions = new Set(result.items.map((item) => item.metadata.sessionId).filter(Boolean)).size;
+    const errorClasses = countBy(result.failures.map((failure) => failure.errorClass)) as Partial<Record<ErrorClass, number>>;
+    const retries =
+      result.items.reduce((sum, item) => sum + (item.metadata.retries || 0), 0) +
+      result.failures.reduce((sum, failure) => sum + failure.retryCount, 0);
+    const { changes } = result.metadata;
+    const bodyBytes = result.items.reduce((sum, item) => sum + (item.metadata.contentLength || 0), 0);
 
     const metrics: BenchmarkMetrics = {
       startTime,
       endTime,
       duration,
       pagesProcessed: result.items.length,
-      pagesFailed: 0,
-      memoryUsed: memoryDelta, // Peak memory increase during execution
+      pagesFailed: result.failures.length,
+      ...(result.failures.length > 0 ? { errorClasses } : {}),
+      ...(retries > 0 ? { retries } : {}),
+      ...(result.metadata.resumedPages ? { resumedPages: result.metadata.resumedPages } : {}),
+      ...(changes ? { changes, bodyBytes } : {}),
+      pagesSkipped,
+      skipped: result.metadata.skipped,
+      ...(result.metadata.crawlDelay !== undefined ? { crawlDelay: result.metadata.crawlDelay } : {}),
+      ...(result.metadata.sitemapUrls !== undefined ? { sitemapUrls: result.metadata.sitemapUrls } : {}),
+      ...(traffic ? { traffic } : {}),
+      ...(Object.keys(proxies).length > 0 ? { proxies } : {}),
+      ...(proxyTraffic ? { proxyTraffic } : {}),
+      ...(sessions > 0 ? { sessions } : {}),
+      memoryUsed: memoryDelta,
+      resources,
       errors,
     };
 
     console.log(`[${crawlerType.toUpperCase()}] Completed in ${duration}ms`);
     console.log(`[${crawlerType.toUpperCase()}] Pages processed: ${result.items.length}`);
-    console.log(`[${crawlerType.toUpperCase()}] Memory: peak=${peakMemory.toFixed(2)}MB, final=${finalMemory.toFixed(2)}MB, delta=${memoryDelta.toFixed(2)}MB`);
+    if (result.metadata.resumedPages) {
+      console.log(`[${crawlerType.toUpperCase()}] Resumed: ${result.metadata.resumedPages} pages from an earlier attempt`);
+    }
+    if (result.metadata.interrupted) {
+      console.log(`[${crawlerType.toUpperCase()}] Interrupted before the run finished`);
+    }
+    if (changes) {
+      console.log(`[${crawlerType.toUpperCase()}] Changes: ${formatChanges(changes)}`);
+    }
+    if (result.failures.length > 0) {
+      console.log(`[${crawlerType.toUpperCase()}] Pages failed: ${formatFailed(metrics)}`);
+    }
+    if (retries > 0) {
+      console.log(`[${crawlerType.toUpperCase()}] Retries: ${retries}`);
+    }
+    if (pagesSkipped > 0) {
+      console.log(`[${crawlerType.toUpperCase()}] Pages skipped: ${formatSkipped(result.metadata.skipped)}`);
+    }
+    if (result.metadata.sitemapUrls !== undefined) {
+      console.log(`[${crawlerType.toUpperCase()}] Sitemap URLs: ${result.metadata.sitemapUrls}`);
+    }
+    if (result.metadata.crawlDelay !== undefined) {
+      console.log(`[${crawlerType.toUpperCase()}] Crawl-delay: ${result.metadata.crawlDelay}s`);
+    }
+    if (traffic) {
+      console.log(`[${crawlerType.toUpperCase()}] Traffic: ${formatTraffic(traffic)}`);
+    }
+    if (Object.keys(proxies).length > 0) {
+      console.log(`[${crawlerType.toUpperCase()}] Pages per proxy: ${formatProxyUsage(proxies)}`);
+    }
+    if (proxyTraffic) {
+      console.log(`[${crawlerType.toUpperCase()}] Local proxy traffic: ${formatProxyTraffic(proxyTraffic)}`);
+    }
+    if (sessions > 0) {
+      console.log(`[${crawlerType.toUpperCase()}] Sessions used: ${sessions}`);
+    }
+    if (result.metadata.storageDir) {
+      console.log(`[${crawlerType.toUpperCase()}] Storage kept: ${result.metadata.storageDir} (run ${result.metadata.runId})`);
+    }
+    console.log(
+      `[${crawlerType.toUpperCase()}] Memory (RSS, ${resources.peakProcesses} processes): ` +
+        `peak=${resources.peakRss.toFixed(2)}MB, mean=${resources.meanRss.toFixed(2)}MB, ` +
+        `final=${resources.finalRss.toFixed(2)}MB, delta=${memoryDelta.toFixed(2)}MB`,
+    );
+    console.log(`[${crawlerType.toUpperCase()}] CPU: ${resources.cpuTime.toFixed(0)}ms (${resources.cpuPercent.toFixed(1)}%)`);
+
+    const expectationMet = config.expectedPages ? meetsExpectation(result.items.length, config.expectedPages) : undefined;
+    if (expectationMet === false) {
+      console.log(
+        `[${crawlerType.toUpperCase()}] Expected ${formatExpectation(config.expectedPages!)} pages, got ${result.items.length}`,
+      );
+    }
 
     return {
       crawlerType,
@@ -131,21 +415,27 @@ async function runBenchmark(
         url: item.url,
         title: item.title,
         htmlContent: item.htmlContent,
+        ...(item.data ? { data: item.data } : {}),
+        timings: item.timings,
         metadata: item.metadata,
       })),
+      failures: result.failures,
       iteration,
+      ...(concurrency !== undefined ? { concurrency } : {}),
+      warmup,
+      ...(incremental?.fullCrawl ? { fullCrawl: true } : {}),
+      ...(result.metadata.interrupted ? { interrupted: true } : {}),
+      ...(expectationMet !== undefined ? { expectationMet } : {}),
     };
   } catch (error) {
-    clearInterval(memoryInterval);
-    trackPeakMemory(); // Final check even on error
-
     const endTime = Date.now();
+    const resources = await sampler.stop();
     const errorMessage = error instanceof Error ? error.message : String(error);
     errors.push(errorMessage);
 
     console.error(`[${crawlerType.toUpperCase()}] Error: ${errorMessage}`);
 
-    const memoryDelta = Math.max(0, peakMemory - startMemory);
+    const memoryDelta = Math.max(0, Math.round((resources.peakRss - resources.startRss) * 100) / 100);
 
     return {
       crawlerType,
@@ -156,144 +446,711 @@ async function runBenchmark(
         duration: endTime - startTime,
         pagesProcessed: 0,
         pagesFailed: 1,
+        errorClasses: { [classifyError(error, "crawler")]: 1 },
         memoryUsed: memoryDelta,
+        resources,
         errors,
       },
       results: [],
+      failures: [],
       iteration,
+      ...(concurrency !== undefined ? { concurrency } : {}),
+      warmup,
+      ...(incremental?.fullCrawl ? { fullCrawl: true } : {}),
+      ...(config.expectedPages ? { expectationMet: false } : {}),
     };
   }
 }
 
 /**
- * Run all benchmarks
+ * Prefix of a scenario's run IDs under --run-id, e.g. "nightly-fixture-static", so scenarios never share storage
  */
-async function runBenchmarks() {
-  // Check if a scenario is specified
-  let scenario: TestScenario | undefined;
-  if (options.scenario) {
-    scenario = getScenario(options.scenario);
-    if (!scenario) {
-      console.error(`Error: Scenario "${options.scenario}" not found.`);
-      console.error(`Available scenarios: ${SCENARIOS.map((s) => s.name).join(", ")}`);
-      console.error(`Use --list-scenarios to see all available scenarios.`);
-      process.exit(1);
+function scenarioRunId(runId: string, config: BenchmarkConfig): string {
+  return config.scenario ? `${runId}-${config.scenario.replace(/[^a-zA-Z0-9-]/g, "-")}` : runId;
+}
+
+/**
+ * Run ID of one crawler run under --run-id, e.g. "nightly-cheerio-2", "nightly-cheerio-c5-w1" (warm-up at concurrency 5)
+ * or "nightly-cheerio-full" (full crawl of an incremental benchmark)
+ */
+function benchmarkRunId(runId: string, crawlerType: string, run: string, concurrency?: number): string {
+  return [runId, crawlerType, ...(concurrency !== undefined ? [`c${concurrency}`] : []), run].join("-");
+}
+
+/**
+ * Page state for one recrawl: a copy of the full crawl's, so every recrawl starts from the same state
+ */
+function recrawlState(fullState: string): IncrementalRun {
+  const stateFile = fullState.replace(/\.json$/, "-recrawl.json");
+  if (existsSync(fullState)) {
+    copyFileSync(fullState, stateFile);
+  } else {
+    rmSync(stateFile, { force: true });
+  }
+  return { stateFile, fullCrawl: false };
+}
+
+/**
+ * Import the --require modules, resolving relative paths against the working directory
+ */
+async function loadModules(modules: string[]): Promise<void> {
+  for (const module of modules) {
+    const isPath = module.startsWith(".") || module.startsWith("/");
+    await import(isPath ? pathToFileURL(resolve(module)).href : module);
+  }
+}
+
+/**
+ * Whether a CLI option was passed explicitly rather than taken from its default
+ * Explicit options override scenario values, defaults (including .env) do not.
+ */
+function isExplicit(name: string): boolean {
+  return program.getOptionValueSource(name) === "cli";
+}
+
+function optionOr<T>(name: string, scenarioValue: T | undefined, parse: (value: string) => T): T {
+  return isExplicit(name) || scenarioValue === undefined ? parse(options[name]) : scenarioValue;
+}
+
+function splitList(value: string | undefined): string[] {
+  return (value || "")
+    .split(",")
+    .map((item) => item.trim())
+    .filter((item) => item !== "");
+}
+
+/**
+ * Integer option value, checked against a minimum
+ */
+function parseIntegerOption(value: string, label: string, min: number): number {
+  const number = Number(value);
+  if (!(Number.isInteger(number) && number >= min)) {
+    throw new Error(`Invalid ${label} "${value}". Use an integer >= ${min}.`);
+  }
+  return number;
+}
+
+/**
+ * How much page HTML results keep, from the CLI options or the scenario
+ */
+function buildHtmlContentOptions(scenario: TestScenario | undefined): HtmlContentOptions | undefined {
+  const maxLength =
+    options.maxHtmlLength !== undefined
+      ? parseIntegerOption(options.maxHtmlLength, "max HTML length", 0)
+      : scenario?.maxHtmlLength;
+  if (maxLength === undefined) {
+    return undefined;
+  }
+  return maxLength === 0 ? { drop: true } : { maxLength };
+}
+
+/**
+ * Concurrency and rate limits from the CLI options and the scenario, the CLI winning per setting
+ */
+function buildConcurrencyOptions(
+  scenario: TestScenario | undefined,
+): Pick<BenchmarkConfig, "concurrency" | "minConcurrency" | "autoscale" | "maxRequestsPerMinute" | "hostDelay" | "concurrencySweep"> {
+  const concurrency = options.maxConcurrency
+    ? parseIntegerOption(options.maxConcurrency, "max concurrency", 1)
+    : scenario?.concurrency;
+  const minConcurrency = options.minConcurrency
+    ? parseIntegerOption(options.minConcurrency, "min concurrency", 1)
+    : scenario?.minConcurrency;
+  if (concurrency !== undefined && minConcurrency !== undefined && minConcurrency > concurrency) {
+    throw new Error(`Min concurrency ${minConcurrency} exceeds max concurrency ${concurrency}`);
+  }
+  const autoscale = options.autoscale === false ? false : scenario?.autoscale;
+  const maxRequestsPerMinute = options.maxRequestsPerMinute
+    ? parseIntegerOption(options.maxRequestsPerMinute, "max requests per minute", 1)
+    : scenario?.maxRequestsPerMinute;
+  const hostDelay = options.hostDelay ? parseIntegerOption(options.hostDelay, "host delay", 0) : scenario?.hostDelay;
+  const sweep = options.concurrencySweep
+    ? splitList(options.concurrencySweep).map((level) => parseIntegerOption(level, "concurrency level", 1))
+    : scenario?.concurrencySweep;
+  if (options.concurrencySweep && sweep?.length === 0) {
+    throw new Error(`Invalid concurrency sweep "${options.concurrencySweep}". Use comma-separated levels, e.g. 1,2,5,10.`);
+  }
+
+  return {
+    ...(concurrency ? { concurrency } : {}),
+    ...(minConcurrency ? { minConcurrency } : {}),
+    ...(autoscale === false ? { autoscale } : {}),
+    ...(maxRequestsPerMinute ? { maxRequestsPerMinute } : {}),
+    ...(hostDelay ? { hostDelay } : {}),
+    ...(sweep?.length ? { concurrencySweep: [...new Set(sweep)].sort((a, b) => a - b) } : {}),
+  };
+}
+
+/**
+ * Link-following rules from the CLI options and the scenario, the CLI winning per setting
+ */
+function buildLinkOptions(scenario: TestScenario | undefined): LinkOptions | undefined {
+  const strategy: LinkStrategy | undefined = options.strategy || scenario?.strategy;
+  if (strategy && !LINK_STRATEGIES.includes(strategy)) {
+    throw new Error(`Invalid strategy "${strategy}". Use one of: ${LINK_STRATEGIES.join(", ")}`);
+  }
+  const include: string[] | undefined = options.include || scenario?.include;
+  const exclude: string[] | undefined = options.exclude || scenario?.exclude;
+  [...(include || []), ...(exclude || [])].forEach(parseUrlPattern);
+
+  const stripParams = options.stripParams ? splitList(options.stripParams) : scenario?.stripParams;
+  const keepFragments = Boolean(options.keepFragments || scenario?.keepFragments);
+  const maxLinksPerPage = options.maxLinksPerPage ? Number(options.maxLinksPerPage) : scenario?.maxLinksPerPage;
+  if (maxLinksPerPage !== undefined && !(Number.isInteger(maxLinksPerPage) && maxLinksPerPage >= 1)) {
+    throw new Error(`Invalid max links per page "${options.maxLinksPerPage}". Use an integer >= 1.`);
+  }
+
+  const normalize = {
+    ...(stripParams?.length ? { stripParams } : {}),
+    ...(keepFragments ? { stripFragment: false } : {}),
+  };
+  const links: LinkOptions = {
+    ...(strategy ? { strategy } : {}),
+    ...(include?.length ? { include } : {}),
+    ...(exclude?.length ? { exclude } : {}),
+    ...(Object.keys(normalize).length > 0 ? { normalize } : {}),
+    ...(maxLinksPerPage ? { maxLinksPerPage } : {}),
+  };
+  return Object.keys(links).length > 0 ? links : undefined;
+}
+
+/**
+ * Page loading from the CLI options and the scenario, the CLI winning per setting
+ */
+function buildPageLoadOptions(scenario: TestScenario | undefined): PageLoadOptions | undefined {
+  const blockResources = options.blockResources ? splitList(options.blockResources) : scenario?.blockResources;
+  const blockUrls: string[] | undefined = options.blockUrls || scenario?.blockUrls;
+  blockUrls?.forEach(parseUrlPattern);
+  const waitUntil: WaitUntil | undefined = options.waitUntil || scenario?.waitUntil;
+  if (waitUntil && !WAIT_UNTIL_EVENTS.includes(waitUntil)) {
+    throw new Error(`Invalid wait event "${waitUntil}". Use one of: ${WAIT_UNTIL_EVENTS.join(", ")}`);
+  }
+  const waitForSelector: string | undefined = options.waitForSelector || scenario?.waitForSelector;
+
+  const pageLoad: PageLoadOptions = {
+    ...(blockResources?.length ? { blockResources } : {}),
+    ...(blockUrls?.length ? { blockUrls } : {}),
+    ...(waitUntil ? { waitUntil } : {}),
+    ...(waitForSelector ? { waitForSelector } : {}),
+  };
+  return Object.keys(pageLoad).length > 0 ? pageLoad : undefined;
+}
+
+/**
+ * Browser settings from the CLI options, the scenario and the environment, the CLI winning per setting
+ */
+function buildBrowserOptions(scenario: TestScenario | undefined): BrowserOptions {
+  const engine: BrowserEngine | undefined = options.browser || scenario?.browser;
+  const launchProfile: string | undefined = options.launchProfile || scenario?.launchProfile;
+  const launchArgs = options.launchArgs ? (options.launchArgs as string).split(/\s+/).filter(Boolean) : scenario?.launchArgs;
+  const headless = options.headed ? false : scenario?.headless;
+  const viewport = options.viewport ? parseViewport(options.viewport) : scenario?.viewport;
+  const userAgent: string | undefined = options.userAgent || scenario?.userAgent;
+  const locale: string | undefined = options.locale || scenario?.locale;
+
+  return resolveBrowserOptions({
+    ...(engine ? { engine } : {}),
+    ...(launchProfile ? { launchProfile } : {}),
+    ...(launchArgs?.length ? { launchArgs } : {}),
+    ...(headless !== undefined ? { headless } : {}),
+    ...(viewport ? { viewport } : {}),
+    ...(userAgent ? { userAgent } : {}),
+    ...(locale ? { locale } : {}),
+  });
+}
+
+/**
+ * Proxies from the CLI options or the scenario; local proxies stay placeholders until the run starts
+ */
+function buildProxyOptions(scenario: TestScenario | undefined): ProxyOptions | undefined {
+  const urls: string[] | undefined = options.proxy || scenario?.proxyUrls;
+  const tiers = options.proxyTiers
+    ? (options.proxyTiers as string[]).map((tier) => parseProxyTier(splitList(tier)))
+    : scenario?.proxyTiers;
+  if (urls?.length && tiers?.length) {
+    throw new Error("Use either proxy URLs or proxy tiers, not both");
+  }
+  for (const url of [...(urls || []), ...(tiers || []).flat()]) {
+    if (url === null) continue;
+    if (isLocalProxyUrl(url)) LocalProxy.fromUrl(url);
+    else parseProxyUrl(url);
+  }
+
+  if (urls?.length) return { urls };
+  return tiers?.length ? { tiers } : undefined;
+}
+
+/**
+ * Session pool settings from the CLI options and the scenario, the CLI winning per setting
+ */
+function buildSessionOptions(scenario: TestScenario | undefined): SessionOptions | undefined {
+  const maxSessions = options.maxSessions ? Number(options.maxSessions) : scenario?.maxSessions;
+  if (maxSessions !== undefined && !(Number.isInteger(maxSessions) && maxSessions >= 1)) {
+    throw new Error(`Invalid max sessions "${options.maxSessions}". Use an integer >= 1.`);
+  }
+  const retireOnStatus = options.retireOnStatus ? splitList(options.retireOnStatus).map(Number) : scenario?.retireOnStatus;
+  if (retireOnStatus?.some((code) => !(Number.isInteger(code) && code >= 100 && code <= 599))) {
+    throw new Error(`Invalid status codes "${options.retireOnStatus}". Use comma-separated HTTP status codes.`);
+  }
+  const persistCookies = options.persistCookies === false ? false : scenario?.persistCookies;
+
+  const sessions: SessionOptions = {
+    ...(maxSessions ? { maxSessions } : {}),
+    ...(retireOnStatus ? { retireOnStatus } : {}),
+    ...(persistCookies !== undefined ? { persistCookies } : {}),
+  };
+  return Object.keys(sessions).length > 0 ? sessions : undefined;
+}
+
+/**
+ * Retry policy from the CLI options and the scenario, the CLI winning per setting
+ */
+function buildRetryOptions(scenario: TestScenario | undefined): RetryOptions | undefined {
+  const maxRetries = options.maxRetries ? parseIntegerOption(options.maxRetries, "max retries", 0) : scenario?.maxRetries;
+  const backoff = options.backoff ? parseIntegerOption(options.backoff, "backoff", 0) : scenario?.backoff;
+  const retryOnStatus = options.retryOnStatus ? splitList(options.retryOnStatus).map(Number) : scenario?.retryOnStatus;
+  if (retryOnStatus?.some((code) => !(Number.isInteger(code) && code >= 100 && code <= 599))) {
+    throw new Error(`Invalid status codes "${options.retryOnStatus}". Use comma-separated HTTP status codes.`);
+  }
+
+  const retries: RetryOptions = {
+    ...(maxRetries !== undefined ? { maxRetries } : {}),
+    ...(backoff ? { backoff } : {}),
+    ...(retryOnStatus?.length ? { retryOnStatus } : {}),
+  };
+  return Object.keys(retries).length > 0 ? retries : undefined;
+}
+
+/**
+ * Occurrences of each defined value
+ */
+function countBy(values: (string | undefined)[]): Record<string, number> {
+  const counts: Record<string, number> = {};
+  for (const value of values) {
+    if (value !== undefined) counts[value] = (counts[value] || 0) + 1;
+  }
+  return counts;
+}
+
+/**
+ * Browser traffic of all pages of a run; undefined when no page recorded any
+ */
+function sumTraffic(pages: (PageTraffic | undefined)[]): PageTraffic | undefined {
+  const recorded = pages.filter((page): page is PageTraffic => !!page);
+  if (recorded.length === 0) {
+    return undefined;
+  }
+  const total: PageTraffic = { requests: 0, bytes: 0, blocked: 0, blockedByType: {} };
+  for (const page of recorded) {
+    total.requests += page.requests;
+    total.bytes += page.bytes;
+    total.blocked += page.blocked;
+    for (const [type, count] of Object.entries(page.blockedByType)) {
+      total.blockedByType[type] = (total.blockedByType[type] || 0) + count;
     }
-    console.log(`\nUsing scenario: ${scenario.name}`);
-    console.log(`Description: ${scenario.description}`);
   }
+  return total;
+}
+
+/**
+ * Resolve the configuration of one benchmark from a scenario (if any) and the CLI options
+ */
+function buildConfig(scenario: TestScenario | undefined): BenchmarkConfig {
+  const mode: BenchmarkMode = options.mode || scenario?.mode || "crawl";
+  if (mode !== "crawl" && mode !== "scrap") {
+    throw new Error(`Invalid mode "${mode}". Use "crawl" or "scrap".`);
+  }
+
+  const urlsFile: string | undefined = options.urlsFile || scenario?.urlsFile;
+  const urls = urlsFile ? loadUrlList(urlsFile) : scenario?.urls;
+
+  const crawlerList = isExplicit("crawler") || !scenario?.crawlers ? options.crawler : scenario.crawlers.join(",");
+  const crawlers = parseCrawlerList(crawlerList);
+  const unknownCrawlers = crawlers.filter((name) => !getCrawlerNames().includes(name));
+  if (crawlers.length === 0 || unknownCrawlers.length > 0) {
+    throw new Error(
+      `Unknown crawler "${unknownCrawlers.join(", ") || crawlerList}"${scenario ? ` in scenario "${scenario.name}"` : ""}. ` +
+        `Available crawlers: ${getCrawlerNames().join(", ")} (or "both", "all")`,
+    );
+  }
+
+  const extract = parseExtractorList(
+    isExplicit("extract") || !scenario?.extract ? splitList(options.extract) : scenario.extract,
+  );
+  const unknownExtractors = extract.filter((name) => !getExtractorNames().includes(name));
+  if (unknownExtractors.length > 0) {
+    throw new Error(
+      `Unknown extractor "${unknownExtractors.join(", ")}"${scenario ? ` in scenario "${scenario.name}"` : ""}. ` +
+        `Available extractors: ${getExtractorNames().join(", ")} (or "all"; css rules via --css-rules)`,
+    );
+  }
+  const cssRules = options.cssRules ? loadCssRules(options.cssRules) : scenario?.cssRules;
+  const respectRobotsTxt = Boolean(options.respectRobots || scenario?.respectRobotsTxt);
+  const robotsUserAgent: string | undefined = options.robotsUserAgent || scenario?.robotsUserAgent;
+  const sitemaps = Boolean(options.sitemaps || scenario?.sitemaps);
+  const links = buildLinkOptions(scenario);
+  const pageLoad = buildPageLoadOptions(scenario);
+  const browser = buildBrowserOptions(scenario);
+  const proxy = buildProxyOptions(scenario);
+  const sessions = buildSessionOptions(scenario);
+  const retries = buildRetryOptions(scenario);
+  const incremental = Boolean(options.incremental || scenario?.incremental);
+  const html = buildHtmlContentOptions(scenario);
+  const concurrency = buildConcurrencyOptions(scenario);
+  // Only recorded when a crawler launches a browser with it
+  const usesBrowser = crawlers.some((name) => {
+    const crawler = createCrawler(name);
+    return crawler instanceof PlaywrightCrawlerImpl || crawler instanceof AdaptivePlaywrightCrawlerImpl;
+  });
+
+  return {
+    ...(scenario ? { scenario: scenario.name } : {}),
+    url: isExplicit("url") || !scenario ? options.url : scenario.url,
+    mode,
+    ...(urls ? { urls } : {}),
+    ...(urlsFile ? { urlsFile } : {}),
+    maxPages: optionOr("maxPages", scenario?.maxPages, (value) => parseInt(value, 10)),
+    maxDepth: optionOr("maxDepth", scenario?.maxDepth, (value) => parseInt(value, 10)),
+    iterations: optionOr("iterations", scenario?.iterations, (value) => parseInt(value, 10)),
+    warmupIterations: optionOr("warmup", scenario?.warmupIterations, (value) => parseInt(value, 10)),
+    timeout: optionOr("timeout", scenario?.timeout, (value) => parseInt(value, 10)),
+    keepStorage: Boolean(options.keepStorage),
+    crawlers,
+    ...concurrency,
+    ...(scenario?.crawlerOptions ? { crawlerOptions: scenario.crawlerOptions } : {}),
+    ...(scenario?.expectedPages ? { expectedPages: scenario.expectedPages } : {}),
+    ...(extract.length > 0 ? { extract } : {}),
+    ...(cssRules ? { cssRules } : {}),
+    ...(respectRobotsTxt ? { respectRobotsTxt } : {}),
+    ...(robotsUserAgent ? { robotsUserAgent } : {}),
+    ...(sitemaps ? { sitemaps } : {}),
+    ...(links ? { links } : {}),
+    ...(pageLoad ? { pageLoad } : {}),
+    ...(usesBrowser ? { browser } : {}),
+    ...(proxy ? { proxy } : {}),
+    ...(sessions ? { sessions } : {}),
+    ...(retries ? { retries } : {}),
+    ...(incremental ? { incremental } : {}),
+    ...(html ? { html } : {}),
+    ...(scenario?.tags.length ? { tags: scenario.tags } : {}),
+  };
+}
 
-  const config: BenchmarkConfig = {
-    url: scenario?.url || options.url,
-    maxPages: scenario?.maxPages || parseInt(options.maxPages, 10),
-    maxDepth: scenario?.maxDepth || parseInt(options.maxDepth, 10),
-    iterations: parseInt(options.iterations, 10),
-    timeout: parseInt(options.timeout, 10),
+/**
+ * Replace local proxy placeholders with started local proxies, added to `started`
+ */
+async function startLocalProxies(proxy: ProxyOptions, started: LocalProxy[]): Promise<ProxyOptions> {
+  const start = async <T extends string | null>(url: T): Promise<T | string> => {
+    if (url === null || !isLocalProxyUrl(url)) return url;
+    const localProxy = LocalProxy.fromUrl(url);
+    started.push(localProxy);
+    const proxyUrl = await localProxy.start();
+    console.log(`Local proxy: ${proxyUrl} (${url})`);
+    return proxyUrl;
   };
 
+  return {
+    ...(proxy.urls ? { urls: await Promise.all(proxy.urls.map(start)) } : {}),
+    ...(proxy.tiers ? { tiers: await Promise.all(proxy.tiers.map((tier) => Promise.all(tier.map(start)))) } : {}),
+  };
+}
+
+/**
+ * Run every configured crawler against one scenario and build its report
+ */
+async function runScenario(config: BenchmarkConfig, description?: string): Promise<BenchmarkReport> {
+  const crawlersToTest = config.crawlers || [];
+  // Proxy credentials stay out of output and stored results; crawlers get the real URLs through the target
+  const reportConfig = config.proxy ? { ...config, proxy: redactProxyOptions(config.proxy) } : config;
+
   console.log("=".repeat(60));
-  console.log("Crawlee Benchmark: Playwright vs Cheerio");
+  console.log(`Crawlee Benchmark: ${crawlersToTest.join(" vs ")}`);
   console.log("=".repeat(60));
+  if (config.scenario) {
+    console.log(`Scenario: ${config.scenario}${description ? ` - ${description}` : ""}`);
+  }
   console.log(`URL: ${config.url}`);
+  console.log(`Mode: ${config.mode}`);
+  if (config.mode === "scrap") {
+    console.log(`URL List: ${config.urls?.length || 1} URLs${config.urlsFile ? ` from ${config.urlsFile}` : ""}`);
+  }
   console.log(`Max Pages: ${config.maxPages}`);
   console.log(`Max Depth: ${config.maxDepth}`);
   console.log(`Iterations: ${config.iterations}`);
-  console.log(`Crawler: ${options.crawler}`);
+  if (config.warmupIterations) {
+    console.log(`Warm-up Iterations: ${config.warmupIterations}`);
+  }
+  console.log(`Crawlers: ${crawlersToTest.join(", ")}`);
+  if (config.extract || config.cssRules) {
+    console.log(`Extractors: ${[...(config.extract || []), ...(config.cssRules ? ["css"] : [])].join(", ")}`);
+  }
+  if (config.respectRobotsTxt) {
+    console.log(`robots.txt: respected (user agent "${config.robotsUserAgent || "*"}")`);
+  }
+  if (config.sitemaps) {
+    console.log("Sitemaps: seeding crawl");
+  }
+  if (config.links) {
+    console.log(`Links: ${formatLinkOptions(config.links)}`);
+  }
+  if (config.pageLoad) {
+    console.log(`Page load: ${formatPageLoad(config.pageLoad)}`);
+  }
+  if (config.browser) {
+    console.log(`Browser: ${formatBrowser(config.browser)}`);
+  }
+  if (config.proxy) {
+    console.log(`Proxy: ${formatProxy(reportConfig.proxy!)}`);
+  }
+  if (config.sessions) {
+    console.log(`Sessions: ${formatSessions(config.sessions)}`);
+  }
+  if (config.retries) {
+    console.log(`Retries: ${formatRetries(config.retries)}`);
+  }
+  if (formatConcurrency(config)) {
+    console.log(`Concurrency: ${formatConcurrency(config)}`);
+  }
+  if (config.concurrencySweep) {
+    console.log(`Concurrency sweep: ${config.concurrencySweep.join(", ")}`);
+  }
+  if (config.incremental) {
+    console.log("Incremental: full crawl, then recrawls against its page state");
+  }
+  if (config.html) {
+    console.log(`HTML: ${formatHtmlContent(config.html)}`);
+  }
   console.log("=".repeat(60));
 
   const results: BenchmarkResult[] = [];
-  const crawlersToTest: ("playwright" | "cheerio")[] =
-    options.crawler === "both" ? ["playwright", "cheerio"] : [options.crawler as "playwright" | "cheerio"];
 
-  for (const crawlerType of crawlersToTest) {
-    for (let i = 0; i < config.iterations!; i++) {
-      const result = await runBenchmark(crawlerType, config, i);
-      results.push(result);
+  // Serve fixture sites locally so every crawler gets identical input
+  let fixtureServer: FixtureServer | undefined;
+  let targetUrl = config.url;
+  if (isFixtureUrl(config.url)) {
+    fixtureServer = FixtureServer.fromUrl(config.url);
+    targetUrl = await startFixtureServer(fixtureServer, config);
+    console.log(`Fixture site: ${targetUrl} (${fixtureServer.pageCount} pages)`);
+  }
+
+  // Local proxies are shared by all crawlers, like the fixture site
+  const localProxies: LocalProxy[] = [];
+  // Page state of incremental benchmarks, per crawler and concurrency level
+  const stateDir = config.incremental ? mkdtempSync(join(tmpdir(), "crawlee-incremental-")) : undefined;
+  const revision = fixtureServer?.revision ?? 0;
+  try {
+    const proxy = config.proxy ? await startLocalProxies(config.proxy, localProxies) : undefined;
+    const target: BenchmarkTarget = {
+      url: targetUrl,
+      urls: resolveUrls(config.urls || [targetUrl], targetUrl),
+      ...(proxy ? { proxy } : {}),
+      ...(localProxies.length > 0 ? { localProxies } : {}),
+    };
+
+    // Without a sweep, one pass at each crawler's configured concurrency
+    // An interrupted run ends the benchmark; the report covers the runs so far
+    const levels = config.concurrencySweep || [undefined];
+    runs: for (const crawlerType of crawlersToTest) {
+      for (const level of levels) {
+        // The full crawl writes the page state the recrawls start from; fixture sites then change every fifth page
+        const fullState = stateDir ? join(stateDir, `${crawlerType}${level !== undefined ? `-c${level}` : ""}.json`) : undefined;
+        if (fullState) {
+          fixtureServer?.setRevision(revision);
+          fixtureServer?.resetFailures();
+          const result = await runBenchmark(crawlerType, reportConfig, 0, target, true, level, {
+            stateFile: fullState,
+            fullCrawl: true,
+          });
+          results.push(result);
+          if (result.interrupted) break runs;
+          fixtureServer?.setRevision(revision + 1);
+        }
+        for (let i = 0; i < config.warmupIterations!; i++) {
+          fixtureServer?.resetFailures();
+          const incremental = fullState ? recrawlState(fullState) : undefined;
+          const result = await runBenchmark(crawlerType, reportConfig, i, target, true, level, incremental);
+          results.push(result);
+          if (result.interrupted) break runs;
+        }
+        for (let i = 0; i < config.iterations!; i++) {
+          // Injected failures start over, so every run sees the same ones
+          fixtureServer?.resetFailures();
+          const incremental = fullState ? recrawlState(fullState) : undefined;
+          const result = await runBenchmark(crawlerType, reportConfig, i, target, false, level, incremental);
+          results.push(result);
+          if (result.interrupted) break runs;
+        }
+      }
+    }
+  } finally {
+    await Promise.all(localProxies.map((proxy) => proxy.stop()));
+    await fixtureServer?.stop();
+    if (stateDir) {
+      rmSync(stateDir, { recursive: true, force: true });
     }
   }
 
-  // Generate and save report
-  const report = generateReport(results, config);
+  return generateReport(results, reportConfig);
+}
+
+/**
+ * Start a fixture site; under --run-id on the port of its first start, so the URLs in resumed queues still reach it
+ */
+async function startFixtureServer(server: FixtureServer, config: BenchmarkConfig): Promise<string> {
+  if (!options.runId) {
+    return server.start();
+  }
+  const storageDir = resolve(options.storageDir);
+  const portFile = join(storageDir, `${scenarioRunId(options.runId, config)}-fixture.json`);
+  const saved = existsSync(portFile) ? (JSON.parse(readFileSync(portFile, "utf-8")) as { port: number }).port : 0;
+  let url: string;
+  try {
+    url = await server.start(saved);
+  } catch (error) {
+    throw new Error(
+      `Fixture port ${saved} of run ${options.runId} is unavailable, so its queued requests cannot be resumed: ${error instanceof Error ? error.message : String(error)}`,
+    );
+  }
+  mkdirSync(storageDir, { recursive: true });
+  writeFileSync(portFile, JSON.stringify({ port: Number(new URL(url).port) }));
+  return url;
+}
+
+/**
+ * Print the available scenarios
+ */
+function listScenarios(scenarios: TestScenario[]): void {
+  console.log(`Scenarios in ${options.scenariosDir}:\n`);
+  for (const scenario of scenarios) {
+    console.log(`  ${scenario.name.padEnd(24)}${scenario.description}`);
+    console.log(`  ${"".padEnd(24)}${scenario.url}${scenario.tags.length ? ` [${scenario.tags.join(", ")}]` : ""}`);
+  }
+}
+
+/**
+ * Run all benchmarks
+ */
+async function runBenchmarks() {
+  await loadModules(options.require || []);
+
+  // JSON is always written per scenario: it is what compare and history read
+  const formats = [...new Set(splitList(options.format))].filter((name) => name !== "json");
+  const unknownFormats = formats.filter((name) => !getFormatterNames().includes(name));
+  if (unknownFormats.length > 0) {
+    console.error(`Error: Unknown format "${unknownFormats.join(", ")}".`);
+    console.error(`Available formats: json, ${getFormatterNames().join(", ")}`);
+    process.exit(1);
+  }
+
+  let baselines: LoadedReport[] | undefined;
+  let plans: { config: BenchmarkConfig; description?: string }[];
+  try {
+    if (options.runId) {
+      checkRunId(options.runId);
+    }
+    if (options.baseline) {
+      baselines = (options.baseline as string[]).map(loadReport);
+    }
+
+    const names = splitList(options.scenario);
+    const tags = splitList(options.tag);
+    const needsScenarios = options.listScenarios || names.length > 0 || tags.length > 0;
+    const scenarios = needsScenarios ? loadScenarios(options.scenariosDir) : [];
+
+    if (options.listScenarios) {
+      listScenarios(scenarios);
+      return;
+    }
+
+    const selected = selectScenarios(scenarios, names, tags);
+    plans =
+      selected.length > 0
+        ? selected.map((scenario) => ({ config: buildConfig(scenario), description: scenario.description }))
+        : [{ config: buildConfig(undefined) }];
+  } catch (error) {
+    console.error(`Error: ${error instanceof Error ? error.message : String(error)}`);
+    process.exit(1);
+  }
+
+  if (plans.length > 1) {
+    console.log(`\nRunning ${plans.length} scenarios: ${plans.map((plan) => plan.config.scenario).join(", ")}\n`);
+  }
+
+  const reports: BenchmarkReport[] = [];
+  for (const plan of plans) {
+    const report = await runScenario(plan.config, plan.description);
+    reports.push(report);
+    if (report.results.some((result) => result.interrupted)) {
+      break;
+    }
+  }
+
+  // Generate and save reports
   const resultsDir = join(process.cwd(), process.env.RESULTS_DIR || "results");
   mkdirSync(resultsDir, { recursive: true });
 
   const timestamp = new Date().toISOString().replace(/[:.]/g, "-");
-  const reportPath = join(resultsDir, `benchmark-${timestamp}.json`);
-  const textReportPath = join(resultsDir, `benchmark-${timestamp}.txt`);
+  const stored = reports.map((report) => ({
+    path: join(resultsDir, `benchmark-${timestamp}${reports.length > 1 ? `-${report.config.scenario}` : ""}.json`),
+    report,
+  }));
+  for (const { path, report } of stored) {
+    writeFileSync(path, JSON.stringify(report, null, 2));
+  }
 
-  writeFileSync(reportPath, JSON.stringify(report, null, 2));
-  writeFileSync(textReportPath, generateTextReport(report));
+  const context: FormatContext = {};
+  if (baselines) {
+    context.comparison = compareReports(baselines, stored, thresholdsFromEnv());
+  }
+
+  const outputs = formats.map((name) => {
+    const formatter = getFormatter(name);
+    const path = join(resultsDir, `benchmark-${timestamp}.${formatter.extension}`);
+    writeFileSync(path, formatter.format(reports, context));
+    return { name, path };
+  });
 
   console.log("\n" + "=".repeat(60));
   console.log("Benchmark completed!");
-  console.log(`JSON report: ${reportPath}`);
-  console.log(`Text report: ${textReportPath}`);
+  for (const { path, report } of stored) {
+    console.log(`json report${reports.length > 1 ? ` (${report.config.scenario})` : ""}: ${path}`);
+  }
+  for (const output of outputs) {
+    console.log(`${output.name} report: ${output.path}`);
+  }
   console.log("=".repeat(60));
 
   // Print summary
-  printSummary(report);
-}
+  for (const report of reports) {
+    printSummary(report);
+  }
 
-/**
- * Generate text report
- */
-function generateTextReport(report: ReturnType<typeof generateReport>): string {
-  let output = "=".repeat(60) + "\n";
-  output += "Crawlee Benchmark Report\n";
-  output += "=".repeat(60) + "\n\n";
-  output += `Timestamp: ${report.timestamp}\n`;
-  output += `URL: ${report.config.url}\n`;
-  output += `Max Pages: ${report.config.maxPages}\n`;
-  output += `Max Depth: ${report.config.maxDepth}\n`;
-  output += `Iterations: ${report.config.iterations}\n\n`;
-
-  if (report.comparison) {
-    const { playwright, cheerio, speedup } = report.comparison;
-    output += "=".repeat(60) + "\n";
-    output += "Comparison Results\n";
-    output += "=".repeat(60) + "\n\n";
-
-    output += `Playwright:\n`;
-    output += `  Duration: ${playwright.metrics.duration}ms\n`;
-    output += `  Pages: ${playwright.metrics.pagesProcessed}\n`;
-    output += `  Memory: ${playwright.metrics.memoryUsed}MB\n\n`;
-
-    output += `Cheerio:\n`;
-    output += `  Duration: ${cheerio.metrics.duration}ms\n`;
-    output += `  Pages: ${cheerio.metrics.pagesProcessed}\n`;
-    output += `  Memory: ${cheerio.metrics.memoryUsed}MB\n\n`;
-
-    output += `Speedup: ${speedup.toFixed(2)}x ${speedup > 1 ? "(Cheerio faster)" : "(Playwright faster)"}\n`;
-    output += `Time Difference: ${Math.abs(playwright.metrics.duration - cheerio.metrics.duration)}ms\n`;
-  } else {
-    output += "=".repeat(60) + "\n";
-    output += "Results\n";
-    output += "=".repeat(60) + "\n\n";
-
-    for (const result of report.results) {
-      output += `${result.crawlerType.toUpperCase()} (Iteration ${result.iteration + 1}):\n`;
-      output += `  Duration: ${result.metrics.duration}ms\n`;
-      output += `  Pages: ${result.metrics.pagesProcessed}\n`;
-      output += `  Memory: ${result.metrics.memoryUsed}MB\n\n`;
-    }
+  if (reports.some((report) => report.results.some((result) => result.interrupted))) {
+    console.log(
+      options.runId
+        ? `Interrupted: run again with --run-id ${options.runId} to resume`
+        : "Interrupted: the reports cover the runs finished so far",
+    );
+    process.exitCode = 130;
   }
 
-  return output;
-}
+  const unmet = reports.flatMap((report) =>
+    report.results.filter((r) => r.expectationMet === false).map((r) => `${report.config.scenario}/${r.crawlerType}`),
+  );
+  if (unmet.length > 0) {
+    console.log(`Page count expectation not met: ${[...new Set(unmet)].join(", ")}`);
+    process.exitCode = 1;
+  }
 
-/**
- * Print summary to console
- */
-function printSummary(report: ReturnType<typeof generateReport>) {
-  if (report.comparison) {
-    const { playwright, cheerio, speedup } = report.comparison;
-    console.log("\n" + "=".repeat(60));
-    console.log("Summary");
-    console.log("=".repeat(60));
-    console.log(`Playwright: ${playwright.metrics.duration}ms | ${playwright.metrics.pagesProcessed} pages | ${playwright.metrics.memoryUsed}MB`);
-    console.log(`Cheerio:   ${cheerio.metrics.duration}ms | ${cheerio.metrics.pagesProcessed} pages | ${cheerio.metrics.memoryUsed}MB`);
-    console.log(`Speedup: ${speedup.toFixed(2)}x ${speedup > 1 ? "(Cheerio faster)" : "(Playwright faster)"}`);
-    console.log("=".repeat(60));
+  if (context.comparison) {
+    console.log(
+      context.comparison.regressions > 0
+        ? `Baseline check: ${context.comparison.regressions} regression(s) found`
+        : `Baseline check: no regressions (${context.comparison.deltas.length} crawler/scenario pairs compared)`,
+    );
+    if (context.comparison.regressions > 0) {
+      process.exitCode = 1;
+    }
   }
 }
 
@@ -0,0 +1,121 @@
+/**
+ * Descriptive statistics and significance tests for benchmark iterations
+ */
+
+import type { MetricSummary, SignificanceTest } from "../types/benchmark.types.js";
+
+// Two-sided 95% critical values of Student's t-distribution for 1-30 degrees of freedom
+const T_CRITICAL_95 = [
+  12.706, 4.303, 3.182, 2.776, 2.571, 2.447, 2.365, 2.306, 2.262, 2.228, 2.201, 2.179, 2.16, 2.145, 2.131, 2.12,
+  2.11, 2.101, 2.093, 2.086, 2.08, 2.074, 2.069, 2.064, 2.06, 2.056, 2.052, 2.048, 2.045, 2.042,
+];
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Critical t value for a two-sided 95% interval
+ * Fractional degrees of freedom are rounded down, which is conservative.
+ */
+export function tCritical95(degreesOfFreedom: number): number {
+  const df = Math.floor(degreesOfFreedom);
+  if (df < 1) {
+    return Infinity;
+  }
+  if (df <= T_CRITICAL_95.length) {
+    return T_CRITICAL_95[df - 1];
+  }
+  if (df <= 40) return 2.021;
+  if (df <= 60) return 2.0;
+  if (df <= 120) return 1.98;
+  return 1.96;
+}
+
+export function mean(values: number[]): number {
+  return values.length === 0 ? 0 : values.reduce((sum, value) => sum + value, 0) / values.length;
+}
+
+/**
+ * Sample variance (n - 1 denominator)
+ */
+export function variance(values: number[]): number {
+  if (values.length < 2) {
+    return 0;
+  }
+  const avg = mean(values);
+  return values.reduce((sum, value) => sum + (value - avg) ** 2, 0) / (values.length - 1);
+}
+
+/**
+ * Percentile with linear interpolation between closest ranks
+ */
+export function percentile(values: number[], p: number): number {
+  if (values.length === 0) {
+    return 0;
+  }
+  const sorted = [...values].sort((a, b) => a - b);
+  const rank = (p / 100) * (sorted.length - 1);
+  const lower = Math.floor(rank);
+  const upper = Math.ceil(rank);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (rank - lower);
+}
+
+/**
+ * Summarize a series of per-iteration values
+ */
+export function summarize(values: number[]): MetricSummary {
+  const avg = mean(values);
+  const stdDev = Math.sqrt(variance(values));
+  const margin = values.length > 1 ? tCritical95(values.length - 1) * (stdDev / Math.sqrt(values.length)) : 0;
+
+  return {
+    samples: values.length,
+    min: values.length > 0 ? round(Math.min(...values)) : 0,
+    max: values.length > 0 ? round(Math.max(...values)) : 0,
+    mean: round(avg),
+    median: round(percentile(values, 50)),
+    p90: round(percentile(values, 90)),
+    p95: round(percentile(values, 95)),
+    stdDev: round(stdDev),
+    ci95: [round(avg - margin), round(avg + margin)],
+  };
+}
+
+/**
+ * Welch's t-test on two independent samples at the 95% level
+ * Needs at least two values per sample; otherwise the result is never significant.
+ */
+export function welchTTest(a: number[], b: number[]): SignificanceTest {
+  if (a.length < 2 || b.length < 2) {
+    return { test: "welch-t", tStatistic: null, degreesOfFreedom: 0, tCritical: null, significant: false };
+  }
+
+  const varA = variance(a) / a.length;
+  const varB = variance(b) / b.length;
+  const standardError = Math.sqrt(varA + varB);
+  const diff = mean(a) - mean(b);
+
+  if (standardError === 0) {
+    // No noise at all: any difference is real
+    return {
+      test: "welch-t",
+      tStatistic: null,
+      degreesOfFreedom: a.length + b.length - 2,
+      tCritical: null,
+      significant: diff !== 0,
+    };
+  }
+
+  const tStatistic = diff / standardError;
+  const degreesOfFreedom = (varA + varB) ** 2 / (varA ** 2 / (a.length - 1) + varB ** 2 / (b.length - 1));
+  const critical = tCritical95(degreesOfFreedom);
+
+  return {
+    test: "welch-t",
+    tStatistic: round(tStatistic),
+    degreesOfFreedom: round(degreesOfFreedom),
+    tCritical: critical,
+    significant: Math.abs(tStatistic) > critical,
+  };
+}
@@ -0,0 +1,99 @@
+/**
+ * URL list loading for scrap-mode benchmarks
+ *
+ * Supported formats:
+ * - Plain text: one URL per line, blank lines and `#` comments ignored
+ * - JSON Lines: one JSON string or `{ "url": "..." }` object per line
+ * - Sitemap XML: `<loc>` entries of a `<urlset>` (sitemap indexes are not followed)
+ */
+
+import { readFileSync } from "fs";
+import { extname } from "path";
+import { load } from "cheerio";
+
+export type UrlListFormat = "text" | "jsonl" | "sitemap";
+
+/**
+ * Guess the list format from the file extension, falling back to the content
+ */
+export function detectUrlListFormat(path: string, content: string): UrlListFormat {
+  const extension = extname(path).toLowerCase();
+  if (extension === ".xml") return "sitemap";
+  if (extension === ".jsonl" || extension === ".ndjson") return "jsonl";
+  if (extension === ".txt") return "text";
+
+  const trimmed = content.trimStart();
+  if (trimmed.startsWith("<")) return "sitemap";
+  if (trimmed.startsWith("{") || trimmed.startsWith('"')) return "jsonl";
+  return "text";
+}
+
+function parseJsonLines(content: string, path: string): string[] {
+  return content
+    .split(/\r?\n/)
+    .map((line, index) => ({ line: line.trim(), number: index + 1 }))
+    .filter(({ line }) => line !== "")
+    .map(({ line, number }) => {
+      let value: unknown;
+      try {
+        value = JSON.parse(line);
+      } catch {
+        throw new Error(`${path}:${number}: invalid JSON`);
+      }
+      if (typeof value === "string") {
+        return value;
+      }
+      if (value && typeof value === "object" && typeof (value as { url?: unknown }).url === "string") {
+        return (value as { url: string }).url;
+      }
+      throw new Error(`${path}:${number}: expected a URL string or an object with a "url" field`);
+    });
+}
+
+function parseSitemap(content: string): string[] {
+  const $ = load(content, { xml: true });
+  return $("url > loc")
+    .map((_, element) => $(element).text().trim())
+    .get()
+    .filter((url) => url !== "");
+}
+
+function parseText(content: string): string[] {
+  return content
+    .split(/\r?\n/)
+    .map((line) => line.trim())
+    .filter((line) => line !== "" && !line.startsWith("#"));
+}
+
+/**
+ * Parse URL list content in the given format
+ */
+export function parseUrlList(content: string, format: UrlListFormat, path = "<input>"): string[] {
+  switch (format) {
+    case "jsonl":
+      return parseJsonLines(content, path);
+    case "sitemap":
+      return parseSitemap(content);
+    case "text":
+      return parseText(content);
+  }
+}
+
+/**
+ * Load a URL list file (plain text, JSON Lines or sitemap XML)
+ */
+export function loadUrlList(path: string): string[] {
+  const content = readFileSync(path, "utf8");
+  const urls = parseUrlList(content, detectUrlListFormat(path, content), path);
+  if (urls.length === 0) {
+    throw new Error(`No URLs found in ${path}`);
+  }
+  return urls;
+}
+
+/**
+ * Resolve list entries against the base URL, so relative paths work with fixture sites
+ */
+export function resolveUrls(urls: string[], baseUrl: string): string[] {
+  return urls.map((url) => new URL(url, baseUrl).href);
+}
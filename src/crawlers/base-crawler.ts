@@ -0,0 +1,556 @@
+/**
+ * Shared crawl/scrap flow for all Crawlee-based crawler implementations
+ *
+ * Subclasses only create the underlying Crawlee crawler and extract the
+ * title and HTML of a loaded page; limits, depth tracking, link rules,
+ * extractors, robots.txt and sitemaps, rate limits, proxies and sessions,
+ * retries, storage, timings and failure accounting are handled here, as
+ * are resuming kept runs, stopping gracefully on SIGINT and incremental
+ * recrawls. Results are streamed as pages are stored; `crawl` and `scrap`
+ * collect the stream.
+ */
+
+import { EventType } from "crawlee";
+import type {
+  BasicCrawler,
+  CheerioRoot,
+  Configuration,
+  Log,
+  ProxyConfiguration,
+  ProxyInfo,
+  Request,
+  RequestQueue,
+  RestrictedCrawlingContext,
+  Session,
+  SessionPoolOptions,
+  SkippedRequestCallback,
+  StatisticsOptions,
+} from "crawlee";
+import type { CheerioAPI } from "cheerio";
+import type {
+  ICrawler,
+  CrawlerOptions,
+  CrawlFailure,
+  CrawlResult,
+  CrawlStream,
+  CrawlSummary,
+  ExtractedData,
+  HtmlContentOptions,
+  PageTimings,
+} from "../types/crawler.types.js";
+import type { PageData } from "../types/extractor.types.js";
+import { openRunStorage } from "../storage/run-storage.js";
+import { PageTimer, enqueueTiming } from "../timing/page-timer.js";
+import { extractPageData } from "../extractors/registry.js";
+import { applyCrawlDelay, discoverSitemapUrls, fetchRobotsInfo } from "./robots.js";
+import { filterSeedUrls, getEnqueueRules } from "./link-rules.js";
+import { createProxyConfiguration, createSessionPoolOptions, redactProxyUrl } from "./proxies.js";
+import { ClassifiedError, classifyError, createBackoffHook, createStatusError } from "./retries.js";
+import { IncrementalCrawl, parseNotModifiedAsHtml } from "./incremental.js";
+import { getHttpResponseMetadata, type HttpResponseLike } from "./response-metadata.js";
+import { ResultStream, type ResultSink } from "./result-stream.js";
+
+type CrawlMode = "crawl" | "scrap";
+
+/** What resuming a run needs besides its dataset and request queue */
+interface CrawlState {
+  failures: CrawlFailure[];
+  /** Skipped URLs by reason */
+  skipped: Record<string, string[]>;
+}
+
+/** A page as pushed to the dataset */
+interface StoredItem {
+  url: string;
+  title: string;
+  htmlContent: string;
+  data?: PageData;
+  metadata: Record<string, unknown>;
+}
+
+/** What `enqueueLinks` resolves to; the adaptive crawler commits links later and resolves to nothing */
+interface EnqueuedLinks {
+  processedRequests: Array<{ uniqueKey: string }>;
+}
+
+export interface PageContent {
+  title: string;
+  htmlContent: string;
+  metadata: Partial<CrawlResult["metadata"]>;
+  /** Links on the page, for backends whose context cannot discover them (e.g. HttpCrawler) */
+  links?: string[];
+  /** The page parsed with Cheerio, for backends that parse it anyway; extractors reuse it */
+  $?: CheerioRoot;
+}
+
+/**
+ * Options every subclass passes through to its Crawlee crawler
+ */
+export interface CrawlerSetup<Context> {
+  requestQueue: RequestQueue;
+  maxRequestsPerCrawl?: number;
+  maxConcurrency: number;
+  minConcurrency?: number;
+  maxRequestsPerMinute?: number;
+  maxRequestRetries?: number;
+  requestHandlerTimeoutSecs: number;
+  /** Keeps Crawlee's request statistics with the run, so a resumed run counts its earlier pages towards `maxRequestsPerCrawl` */
+  statisticsOptions: StatisticsOptions;
+  requestHandler: (context: Context) => Promise<void>;
+  failedRequestHandler: (context: { request: Request; log: Log }, error: Error) => void;
+  respectRobotsTxtFile?: { userAgent: string };
+  onSkippedRequest: SkippedRequestCallback;
+  /** Run before the subclass's own pre-navigation hooks, so time spent in them counts as queue wait, not navigation */
+  preNavigationHooks: Array<(context: { request: Request }) => Promise<void>>;
+  proxyConfiguration?: ProxyConfiguration;
+  sessionPoolOptions: SessionPoolOptions;
+  persistCookiesPerSession?: boolean;
+  /** Set for conditional requests, as a 304 has no Content-Type (HTTP-based crawlers only) */
+  additionalMimeTypes?: string[];
+  /** Run before the subclass's own post-navigation hooks (HTTP-based crawlers only) */
+  postNavigationHooks?: Array<(context: { response?: HttpResponseLike }) => Promise<void>>;
+}
+
+export type RunnableCrawler = Pick<BasicCrawler, "run" | "stop" | "teardown" | "autoscaledPool">;
+
+const DEFAULT_OPTIONS = {
+  maxPages: 10,
+  maxDepth: 2,
+  timeout: 30000,
+};
+
+/**
+ * Skipped URLs per reason, leaving out URLs that were fetched anyway
+ * (e.g. links over the enqueue limit that had already been queued from a sitemap)
+ */
+function countSkipped(skipped: Map<string, Set<string>>, fetched: Set<string>): Record<string, number> {
+  const counts: Record<string, number> = {};
+  for (const [reason, urls] of skipped) {
+    const count = [...urls].filter((url) => !fetched.has(url)).length;
+    if (count > 0) counts[reason] = count;
+  }
+  return counts;
+}
+
+/**
+ * The part of a page's HTML that results keep
+ */
+function keepHtml(html: string, options: HtmlContentOptions = {}): string {
+  if (options.drop) {
+    return "";
+  }
+  return options.maxLength !== undefined ? html.slice(0, options.maxLength) : html;
+}
+
+/**
+ * Result of a stored page
+ */
+function toCrawlResult(item: StoredItem, timings?: PageTimings): CrawlResult {
+  return {
+    url: item.url,
+    title: item.title,
+    htmlContent: item.htmlContent,
+    ...(item.data ? { data: item.data } : {}),
+    timings,
+    metadata: {
+      statusCode: (item.metadata.statusCode as number) || 200,
+      timestamp: (item.metadata.timestamp as string) || new Date().toISOString(),
+      ...item.metadata,
+    },
+  };
+}
+
+/**
+ * Base class for crawler implementations
+ */
+export abstract class BaseCrawlerImpl<Context extends RestrictedCrawlingContext> implements ICrawler {
+  /** Registry name, also used as the run ID prefix */
+  protected abstract readonly name: string;
+  protected abstract readonly defaultMaxConcurrency: number;
+  /** The backend accepts 304 responses to conditional requests (HTTP-based crawlers whose parser takes an empty body; not LinkeDOM) */
+  protected readonly supportsConditionalRequests: boolean = false;
+
+  /**
+   * Create the underlying Crawlee crawler
+   * `options` are the run's options with defaults applied, for backend-specific settings such as `pageLoad`.
+   */
+  protected abstract createCrawler(
+    setup: CrawlerSetup<Context>,
+    config: Configuration,
+    options: CrawlerOptions,
+  ): RunnableCrawler;
+
+  /**
+   * Extract title, HTML and response metadata from a loaded page
+   */
+  protected abstract extractPage(context: Context): Promise<PageContent>;
+
+  /**
+   * Execute crawl operation
+   */
+  async crawl(url: string, options?: CrawlerOptions): Promise<ExtractedData> {
+    return this.collect(this.crawlStream(url, options));
+  }
+
+  /**
+   * Execute scrap operation for multiple URLs
+   */
+  async scrap(urls: string[], options?: CrawlerOptions): Promise<ExtractedData> {
+    return this.collect(this.scrapStream(urls, options));
+  }
+
+  /**
+   * Crawl, yielding each page's result as it is stored
+   */
+  crawlStream(url: string, options?: CrawlerOptions): CrawlStream {
+    return new ResultStream((sink) => this.execute("crawl", [url], options, sink), options?.streamBuffer);
+  }
+
+  /**
+   * Scrap the URLs, yielding each page's result as it is stored
+   */
+  scrapStream(urls: string[], options?: CrawlerOptions): CrawlStream {
+    return new ResultStream((sink) => this.execute("scrap", urls, options, sink), options?.streamBuffer);
+  }
+
+  private async collect(stream: CrawlStream): Promise<ExtractedData> {
+    const items: CrawlResult[] = [];
+    for await (const item of stream) {
+      items.push(item);
+    }
+    return { items, ...(await stream.summary) };
+  }
+
+  private async execute(
+    mode: CrawlMode,
+    urls: string[],
+    options: CrawlerOptions | undefined,
+    sink: ResultSink,
+  ): Promise<CrawlSummary> {
+    const startTime = Date.now();
+    const opts = { ...DEFAULT_OPTIONS, maxConcurrency: this.defaultMaxConcurrency, ...options };
+    const timings = new Map<string, PageTimings>();
+    const storage = await openRunStorage(`${this.name}-${mode}`, opts.storage);
+    // A resumed run takes its pages from the dataset and its failures from the saved state;
+    // the request queue continues with the pending requests by itself
+    const saved = storage.resumed ? await storage.getState<CrawlState>() : null;
+    const failures: CrawlFailure[] = saved?.failures ?? [];
+    const incremental = opts.incremental ? await IncrementalCrawl.open(opts.incremental) : undefined;
+    const processedUrls = new Set<string>();
+    // Stored pages are emitted once their handler has been timed: HTTP and browser crawlers store a page
+    // before their handler ends, the adaptive crawler commits it afterwards.
+    // Only counters outlive the emit; pages are held by the stream until its consumer takes them.
+    let storedPages = 0;
+    const fetchedUrls = new Set<string>();
+    const untimed = new Map<string, StoredItem>();
+    // A full stream buffer pauses the pool until the consumer has caught up; an aborted stream resumes it to let the run finish
+    let paused = false;
+    const pauseForConsumer = () => {
+      const pool = crawler.autoscaledPool;
+      if (paused || !pool) return;
+      paused = true;
+      void pool.pause();
+      void sink.drain().then(() => {
+        paused = false;
+        pool.resume();
+      });
+    };
+    const count = (item: StoredItem, pageTimings?: PageTimings) => {
+      const result = toCrawlResult(item, pageTimings);
+      storedPages++;
+      fetchedUrls.add(result.url);
+      incremental?.count(result);
+      return result;
+    };
+    const release = (item: StoredItem, pageTimings?: PageTimings) => {
+      if (!sink.push(count(item, pageTimings))) {
+        pauseForConsumer();
+      }
+    };
+    if (storage.resumed) {
+      await storage.dataset.forEach(async (item) => {
+        processedUrls.add(item.url);
+        if (!sink.push(count(item as StoredItem))) {
+          await sink.drain();
+        }
+      });
+    }
+    storage.onItem((item) => {
+      const pageTimings = timings.get(item.url);
+      if (pageTimings) {
+        timings.delete(item.url);
+        release(item as StoredItem, pageTimings);
+      } else {
+        untimed.set(item.url, item as StoredItem);
+      }
+    });
+    const resumedPages = processedUrls.size;
+    const processedCount = { value: resumedPages };
+    const maxDepth = opts.maxDepth ?? DEFAULT_OPTIONS.maxDepth;
+    const timeout = opts.timeout ?? DEFAULT_OPTIONS.timeout;
+    const skipped = new Map(Object.entries(saved?.skipped ?? {}).map(([reason, urls]) => [reason, new Set(urls)]));
+    const skip = (reason: string, url: string) => {
+      if (!skipped.has(reason)) skipped.set(reason, new Set());
+      skipped.get(reason)!.add(url);
+    };
+    const enqueueRules = getEnqueueRules(opts.links);
+    const proxyConfiguration = createProxyConfiguration(opts.proxy);
+    const sessionPoolOptions = createSessionPoolOptions(opts.sessions);
+    const retryOnStatus = new Set(opts.retries?.retryOnStatus || []);
+    const conditionalRequests =
+      incremental !== undefined && opts.incremental?.conditionalRequests !== false && this.supportsConditionalRequests;
+
+    // Crawlee enforces the disallow rules; crawl-delay and sitemaps are read here, once per origin
+    const readSitemaps = mode === "crawl" && opts.sitemaps;
+    const robots =
+      opts.respectRobotsTxt || readSitemaps
+        ? await Promise.all(
+            [...new Set(urls.map((url) => new URL(url).origin))].map((origin) =>
+              fetchRobotsInfo(origin, opts.robotsUserAgent),
+            ),
+          )
+        : [];
+    const delays = robots.flatMap((info) => (info.crawlDelay !== undefined ? [info.crawlDelay] : []));
+    const crawlDelay = opts.respectRobotsTxt && delays.length > 0 ? Math.max(...delays) : undefined;
+    const hostDelaySecs = Math.max(crawlDelay ?? 0, (opts.hostDelay ?? 0) / 1000);
+    // Without autoscaling the pool starts and stays at the maximum
+    const minConcurrency =
+      opts.autoscale === false ? opts.maxConcurrency : opts.minConcurrency && Math.min(opts.minConcurrency, opts.maxConcurrency);
+    const sitemapUrls = readSitemaps
+      ? filterSeedUrls(await discoverSitemapUrls(urls[0], robots[0].sitemaps), opts.links, (url) => skip("filters", url))
+      : [];
+
+    const requestHandler = async (context: Context) => {
+      const { request, log } = context;
+      const timer = new PageTimer(request);
+      const currentUrl = request.loadedUrl || request.url;
+      const depth = (request.userData.depth as number | undefined) ?? 0;
+      const parentUrl = (request.userData.parentUrl as string | undefined) ?? null;
+      // Present on HTTP and browser crawling contexts
+      const { proxyInfo, session } = context as { proxyInfo?: ProxyInfo; session?: Session };
+      // A 304 to a conditional request has no body to extract: the page is the one the earlier run stored
+      const { response } = context as { response?: HttpResponseLike };
+      const earlier = conditionalRequests && response?.statusCode === 304 ? incremental?.getPage(currentUrl) : undefined;
+
+      if (mode === "crawl") {
+        // Check if we've reached the limit
+        if (opts.maxPages && processedCount.value >= opts.maxPages) {
+          log.info(`Reached max pages limit: ${processedCount.value}/${opts.maxPages}`);
+          return;
+        }
+
+        // Skip if already processed
+        if (processedUrls.has(currentUrl)) {
+          log.debug(`Skipping already processed URL: ${currentUrl}`);
+          return;
+        }
+      }
+
+      const page: PageContent =
+        earlier && response
+          ? { title: earlier.title, htmlContent: "", metadata: getHttpResponseMetadata(request, response, 0), links: earlier.links ?? [] }
+          : await this.extractPage(context).catch((error: unknown) => {
+              throw new ClassifiedError("parse", error);
+            });
+      const { statusCode } = page.metadata;
+      if (statusCode && retryOnStatus.has(statusCode)) {
+        throw createStatusError(statusCode);
+      }
+      const change = incremental?.compare(currentUrl, page, earlier !== undefined);
+
+      // Thrown errors fail the attempt; Crawlee retries it and reports the last error to failedRequestHandler
+      try {
+        // Crawlee parses with an older Cheerio release, whose documents have the same query API
+        const data = opts.extractors?.length && !earlier
+          ? await extractPageData(opts.extractors, currentUrl, page.htmlContent, page.$ as CheerioAPI | undefined)
+          : undefined;
+
+        const htmlContent = keepHtml(page.htmlContent, opts.html);
+        const item: StoredItem = {
+          url: currentUrl,
+          title: page.title,
+          htmlContent,
+          ...(data ? { data } : {}),
+          metadata: {
+            timestamp: new Date().toISOString(),
+            ...page.metadata,
+            ...(mode === "crawl" ? { depth, parentUrl } : {}),
+            ...(proxyInfo?.url ? { proxyUrl: redactProxyUrl(proxyInfo.url) } : {}),
+            ...(session ? { sessionId: session.id } : {}),
+            ...(request.retryCount > 0 ? { retries: request.retryCount } : {}),
+            ...(change ? { change } : {}),
+            ...(htmlContent.length < page.htmlContent.length ? { htmlLength: page.htmlContent.length } : {}),
+          },
+        };
+        // Through the context so crawlers that defer storage (adaptive) only commit the chosen result
+        await timer.measureStorage(() => context.pushData(item, storage.runId));
+
+        if (mode === "crawl") {
+          processedUrls.add(currentUrl);
+          processedCount.value++;
+
+          log.info(`Processed page ${processedCount.value}: ${currentUrl} - ${page.title}`);
+
+          // Enqueue links if we haven't reached the page or depth limit
+          let links: string[] | undefined;
+          if ((!opts.maxPages || processedCount.value < opts.maxPages) && depth < maxDepth) {
+            const enqueued = (await context.enqueueLinks({
+              ...enqueueRules,
+              userData: { depth: depth + 1, parentUrl: currentUrl, ...enqueueTiming() },
+              ...(page.links ? { urls: page.links } : {}),
+            })) as EnqueuedLinks | undefined;
+            links = page.links ?? enqueued?.processedRequests.map((request) => request.uniqueKey);
+          }
+          if (change) {
+            incremental?.record(currentUrl, page, change, links);
+          }
+        } else {
+          log.info(`Scraped page: ${currentUrl} - ${page.title}`);
+          if (change) {
+            incremental?.record(currentUrl, page, change);
+          }
+        }
+
+        const pageTimings = timer.finish();
+        const storedItem = untimed.get(currentUrl);
+        if (storedItem) {
+          untimed.delete(currentUrl);
+          release(storedItem, pageTimings);
+        } else {
+          timings.set(currentUrl, pageTimings);
+        }
+      } catch (error) {
+        throw new ClassifiedError("handler", error);
+      }
+    };
+
+    const crawler = this.createCrawler(
+      {
+        requestQueue: storage.requestQueue,
+        ...(mode === "crawl" ? { maxRequestsPerCrawl: opts.maxPages } : {}),
+        maxConcurrency: opts.maxConcurrency,
+        ...(minConcurrency ? { minConcurrency } : {}),
+        ...(opts.maxRequestsPerMinute ? { maxRequestsPerMinute: opts.maxRequestsPerMinute } : {}),
+        ...(opts.retries?.maxRetries !== undefined ? { maxRequestRetries: opts.retries.maxRetries } : {}),
+        requestHandlerTimeoutSecs: Math.floor(timeout / 1000),
+        statisticsOptions: { keyValueStore: storage.keyValueStore, id: "run" },
+        requestHandler,
+        failedRequestHandler({ request, log }, error) {
+          failures.push({
+            url: request.url,
+            error: error.message,
+            errorClass: classifyError(error),
+            retryCount: request.retryCount,
+            timestamp: new Date().toISOString(),
+          });
+          log.error(`Request failed after ${request.retryCount} retries: ${request.url} - ${error.message}`);
+        },
+        ...(opts.respectRobotsTxt ? { respectRobotsTxtFile: { userAgent: opts.robotsUserAgent ?? "*" } } : {}),
+        onSkippedRequest: ({ url, reason }) => skip(reason, url),
+        preNavigationHooks: [
+          ...(opts.retries?.backoff ? [createBackoffHook(opts.retries.backoff)] : []),
+          ...(conditionalRequests
+            ? [
+                async ({ request }: { request: Request }) => {
+                  // Pages whose links are still to be followed need them, which a 304 only has when they were stored
+                  const depth = (request.userData.depth as number | undefined) ?? 0;
+                  const headers = incremental?.getConditionalHeaders(request.url, mode === "crawl" && depth < maxDepth);
+                  if (headers) {
+                    request.headers = { ...request.headers, ...headers };
+                  }
+                },
+              ]
+            : []),
+        ],
+        ...(proxyConfiguration ? { proxyConfiguration } : {}),
+        // Sessions are saved with the run too, rather than shared by every run in the storage directory
+        sessionPoolOptions: { ...sessionPoolOptions, persistStateKeyValueStoreId: storage.keyValueStore.id },
+        ...(opts.sessions?.persistCookies === false ? { persistCookiesPerSession: false } : {}),
+        ...(conditionalRequests
+          ? { additionalMimeTypes: ["application/octet-stream"], postNavigationHooks: [parseNotModifiedAsHtml] }
+          : {}),
+      },
+      storage.config,
+      opts,
+    );
+    if (hostDelaySecs > 0) {
+      applyCrawlDelay(crawler, hostDelaySecs);
+    }
+
+    // Sitemap URLs are seeds like the start URL
+    const requests =
+      mode === "crawl"
+        ? [urls[0], ...sitemapUrls.filter((url) => url !== urls[0])].map((url) => ({
+            url,
+            userData: { depth: 0, ...enqueueTiming() },
+          }))
+        : urls.map((url) => ({ url, userData: enqueueTiming() }));
+
+    const saveState = () =>
+      storage.setState({
+        failures,
+        skipped: Object.fromEntries([...skipped].map(([reason, urls]) => [reason, [...urls]])),
+      } satisfies CrawlState);
+    // Saved periodically while the crawler runs, so a crashed run loses little
+    const events = storage.config.getEventManager();
+    if (storage.directory) {
+      events.on(EventType.PERSIST_STATE, saveState);
+    }
+
+    // Crawlee pauses and aborts the run on SIGINT; pages done so far are still returned. A second SIGINT exits.
+    // The aborting event makes the queue release the requests it locked ahead, so a resumed run need not wait for the locks to expire.
+    // A stream whose consumer left its loop stops the same way, without the event: it would pause the pool for good.
+    let interrupted = sink.signal.aborted;
+    const onInterrupt = () => {
+      interrupted = true;
+      events.emit(EventType.ABORTING);
+      crawler.stop("Interrupted: finishing the pages in progress");
+    };
+    const onAbort = () => {
+      interrupted = true;
+      crawler.stop("Stream closed: finishing the pages in progress");
+    };
+    process.once("SIGINT", onInterrupt);
+    sink.signal.addEventListener("abort", onAbort, { once: true });
+
+    try {
+      if (!interrupted) {
+        await crawler.run(requests);
+      }
+      // Pages whose handler failed after storing them
+      for (const item of untimed.values()) {
+        release(item);
+      }
+    } finally {
+      process.off("SIGINT", onInterrupt);
+      sink.signal.removeEventListener("abort", onAbort);
+      events.off(EventType.PERSIST_STATE, saveState);
+      if (storage.directory) {
+        await saveState();
+      }
+      await crawler.stop();
+      await crawler.teardown();
+      await storage.close();
+      await incremental?.save();
+    }
+
+    const reached = new Set([...fetchedUrls, ...failures.map((failure) => failure.url)]);
+    return {
+      failures,
+      metadata: {
+        originalUrl: urls[0] || "",
+        totalPages: storedPages,
+        completedAt: new Date().toISOString(),
+        executionTime: Date.now() - startTime,
+        runId: storage.runId,
+        storageDir: storage.directory,
+        skipped: countSkipped(skipped, reached),
+        ...(crawlDelay !== undefined ? { crawlDelay } : {}),
+        ...(readSitemaps ? { sitemapUrls: sitemapUrls.length } : {}),
+        ...(resumedPages > 0 ? { resumedPages } : {}),
+        ...(interrupted ? { interrupted } : {}),
+        ...(incremental ? { changes: incremental.summarize(reached) } : {}),
+      },
+    };
+  }
+}
@@ -0,0 +1,179 @@
+/**
+ * Incremental recrawls
+ *
+ * The state file remembers the content hash, validators (ETag, Last-Modified),
+ * title and followed links of every page. A recrawl marks each page as new,
+ * changed or unchanged against it, and with conditional requests unchanged
+ * pages answer 304 without a body; their links are followed from the state.
+ */
+
+import { createHash } from "crypto";
+import { mkdir, readFile, writeFile } from "fs/promises";
+import { dirname } from "path";
+import type { ChangeStatus, ChangeSummary, CrawlResult, IncrementalOptions } from "../types/crawler.types.js";
+import type { PageContent } from "./base-crawler.js";
+import type { HttpResponseLike } from "./response-metadata.js";
+
+const REMOVED_STATUS_CODES = new Set([404, 410]);
+
+interface PageState {
+  hash: string;
+  etag?: string;
+  lastModified?: string;
+  title: string;
+  /** Links followed from the page; missing when none were followed (depth or page limit) */
+  links?: string[];
+  crawledAt: string;
+}
+
+interface IncrementalState {
+  savedAt: string;
+  pages: Record<string, PageState>;
+}
+
+/**
+ * Content hash of a page's HTML
+ */
+export function hashContent(html: string): string {
+  return createHash("sha256").update(html).digest("hex");
+}
+
+/**
+ * Post-navigation hook that makes HTTP crawlers parse a 304 as an empty HTML page,
+ * so its stored links can still be enqueued
+ */
+export async function parseNotModifiedAsHtml({ response }: { response?: HttpResponseLike }): Promise<void> {
+  if (response?.statusCode === 304) {
+    response.headers["content-type"] = "text/html";
+  }
+}
+
+/**
+ * Page state of an earlier run and the updates of the current one
+ */
+export class IncrementalCrawl {
+  private readonly pages: Map<string, PageState>;
+  private readonly counts: ChangeSummary = { new: 0, changed: 0, unchanged: 0, removed: 0, notModified: 0, unvisited: 0 };
+
+  private constructor(
+    private readonly options: IncrementalOptions,
+    private readonly previous: Map<string, PageState>,
+  ) {
+    this.pages = new Map(previous);
+  }
+
+  /**
+   * Read the state file; without one every page is new
+   */
+  static async open(options: IncrementalOptions): Promise<IncrementalCrawl> {
+    let content: string;
+    try {
+      content = await readFile(options.stateFile, "utf8");
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        return new IncrementalCrawl(options, new Map());
+      }
+      throw error;
+    }
+
+    let state: IncrementalState;
+    try {
+      state = JSON.parse(content) as IncrementalState;
+    } catch (error) {
+      throw new Error(`Invalid incremental state file ${options.stateFile}: ${(error as Error).message}`);
+    }
+    return new IncrementalCrawl(options, new Map(Object.entries(state.pages || {})));
+  }
+
+  /**
+   * The page as stored by the earlier run
+   */
+  getPage(url: string): PageState | undefined {
+    return this.previous.get(url);
+  }
+
+  /**
+   * Headers that let the server answer 304 for a page known from the earlier run
+   * With `needsLinks`, only pages whose links were stored qualify, as a 304 has no links to follow.
+   */
+  getConditionalHeaders(url: string, needsLinks: boolean): Record<string, string> | undefined {
+    const page = this.previous.get(url);
+    if (!page || (needsLinks && !page.links) || (!page.etag && !page.lastModified)) {
+      return undefined;
+    }
+    return {
+      ...(page.etag ? { "If-None-Match": page.etag } : {}),
+      ...(page.lastModified ? { "If-Modified-Since": page.lastModified } : {}),
+    };
+  }
+
+  /**
+   * Change of a page since the earlier run; `notModified` pages answered 304
+   */
+  compare(url: string, page: PageContent, notModified: boolean): ChangeStatus {
+    const previous = this.previous.get(url);
+    if (!previous) {
+      return "new";
+    }
+    if (notModified) {
+      return "unchanged";
+    }
+    if (page.metadata.statusCode && REMOVED_STATUS_CODES.has(page.metadata.statusCode)) {
+      return "removed";
+    }
+    return previous.hash === hashContent(page.htmlContent) ? "unchanged" : "changed";
+  }
+
+  /**
+   * Store a page for the next run; removed pages are forgotten, pages that answered 304 keep their stored content
+   */
+  record(url: string, page: PageContent, change: ChangeStatus, links?: string[]): void {
+    const { statusCode, etag, lastModified } = page.metadata;
+    if (change === "removed" || (statusCode && statusCode >= 400)) {
+      this.pages.delete(url);
+      return;
+    }
+
+    const previous = this.previous.get(url);
+    const notModified = statusCode === 304 && previous;
+    this.pages.set(url, {
+      hash: notModified ? previous.hash : hashContent(page.htmlContent),
+      ...(etag || previous?.etag ? { etag: etag ?? previous?.etag } : {}),
+      ...(lastModified || previous?.lastModified ? { lastModified: lastModified ?? previous?.lastModified } : {}),
+      title: page.title,
+      ...(links || notModified ? { links: links ?? previous?.links } : {}),
+      crawledAt: new Date().toISOString(),
+    });
+  }
+
+  /**
+   * Write the pages of both runs to the state file
+   */
+  async save(): Promise<void> {
+    const state: IncrementalState = {
+      savedAt: new Date().toISOString(),
+      pages: Object.fromEntries(this.pages),
+    };
+    await mkdir(dirname(this.options.stateFile), { recursive: true });
+    await writeFile(this.options.stateFile, JSON.stringify(state, null, 2));
+  }
+
+  /**
+   * Count a stored page of the run by its change status
+   */
+  count({ metadata }: Pick<CrawlResult, "metadata">): void {
+    if (metadata.change) {
+      this.counts[metadata.change]++;
+    }
+    if (metadata.statusCode === 304) {
+      this.counts.notModified++;
+    }
+  }
+
+  /**
+   * The run's pages per change status; known pages outside `reached` (stored or failed URLs) are unvisited
+   */
+  summarize(reached: Set<string>): ChangeSummary {
+    return { ...this.counts, unvisited: [...this.previous.keys()].filter((url) => !reached.has(url)).length };
+  }
+}
@@ -0,0 +1,131 @@
+/**
+ * Link-following rules of a crawl: enqueue strategy, URL patterns,
+ * normalization and the per-page link cap
+ *
+ * Patterns are Crawlee globs matched against the full URL (case-insensitive,
+ * e.g. `**\/blog/**`) or regular expressions written as `/source/flags`.
+ */
+
+import { createRequests, type EnqueueLinksOptions } from "crawlee";
+import type { LinkOptions, LinkStrategy, UrlNormalization } from "../types/crawler.types.js";
+
+export const LINK_STRATEGIES: LinkStrategy[] = ["same-domain", "same-hostname", "same-origin", "all"];
+
+/** Parameters the name "tracking" stands for in `stripParams` */
+export const TRACKING_PARAMS = [
+  "utm_*",
+  "fbclid",
+  "gclid",
+  "dclid",
+  "gbraid",
+  "wbraid",
+  "msclkid",
+  "yclid",
+  "mc_cid",
+  "mc_eid",
+  "_ga",
+  "_gl",
+  "igshid",
+];
+
+const REGEXP_PATTERN = /^\/(.+)\/([dgimsuvy]*)$/;
+
+type EnqueueRules = Pick<
+  EnqueueLinksOptions,
+  "strategy" | "globs" | "regexps" | "exclude" | "limit" | "transformRequestFunction"
+>;
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/**
+ * A glob, or a RegExp for patterns written as `/source/flags`
+ */
+export function parseUrlPattern(pattern: string): string | RegExp {
+  const match = REGEXP_PATTERN.exec(pattern);
+  if (!match) {
+    return pattern;
+  }
+  try {
+    return new RegExp(match[1], match[2]);
+  } catch (error) {
+    throw new Error(`Invalid URL pattern "${pattern}": ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+/**
+ * Parameter names with "tracking" replaced by TRACKING_PARAMS
+ */
+export function expandParamNames(names: string[]): string[] {
+  return [...new Set(names.flatMap((name) => (name === "tracking" ? TRACKING_PARAMS : [name])))];
+}
+
+/**
+ * URL normalizer for the rules; URLs that cannot be parsed are returned unchanged
+ */
+export function createUrlNormalizer(rules: UrlNormalization = {}): (url: string) => string {
+  const params = expandParamNames(rules.stripParams || []).map(
+    (name) => new RegExp(`^${name.split("*").map(escapeRegExp).join(".*")}$`, "i"),
+  );
+
+  return (url) => {
+    let parsed: URL;
+    try {
+      parsed = new URL(url);
+    } catch {
+      return url;
+    }
+    if (rules.stripFragment !== false) {
+      parsed.hash = "";
+    }
+    // Only rewrite the query when something is removed, as URLSearchParams re-encodes it
+    const stripped = [...new Set(parsed.searchParams.keys())].filter((name) => params.some((param) => param.test(name)));
+    for (const name of stripped) {
+      parsed.searchParams.delete(name);
+    }
+    return parsed.href;
+  };
+}
+
+function toPatternObjects(patterns: string[] = []) {
+  return patterns.map(parseUrlPattern).map((pattern) => (typeof pattern === "string" ? { glob: pattern } : { regexp: pattern }));
+}
+
+/**
+ * `enqueueLinks` options implementing the rules
+ */
+export function getEnqueueRules(links: LinkOptions = {}): EnqueueRules {
+  const include = (links.include || []).map(parseUrlPattern);
+  const normalize = createUrlNormalizer(links.normalize);
+  const keepUrlFragment = links.normalize?.stripFragment === false;
+
+  return {
+    strategy: links.strategy ?? "same-domain",
+    ...(include.length > 0
+      ? {
+          globs: include.filter((pattern): pattern is string => typeof pattern === "string"),
+          regexps: include.filter((pattern): pattern is RegExp => pattern instanceof RegExp),
+        }
+      : {}),
+    ...(links.exclude?.length ? { exclude: links.exclude.map(parseUrlPattern) } : {}),
+    ...(links.maxLinksPerPage ? { limit: links.maxLinksPerPage } : {}),
+    // Runs before the patterns are matched, so they see normalized URLs
+    transformRequestFunction: (request) => ({
+      ...request,
+      url: normalize(request.url),
+      ...(keepUrlFragment ? { keepUrlFragment } : {}),
+    }),
+  };
+}
+
+/**
+ * Normalize seed URLs (e.g. from sitemaps) and keep those the include and exclude patterns allow
+ */
+export function filterSeedUrls(urls: string[], links: LinkOptions = {}, onSkipped?: (url: string) => void): string[] {
+  const normalize = createUrlNormalizer(links.normalize);
+  const normalized = [...new Set(urls.map(normalize))];
+  return createRequests(normalized, toPatternObjects(links.include), toPatternObjects(links.exclude), undefined, onSkipped).map(
+    (request) => request.url,
+  );
+}
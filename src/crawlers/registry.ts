@@ -0,0 +1,51 @@
+/**
+ * Crawler registry
+ *
+ * Maps the names accepted by `--crawler` to implementations. Additional
+ * backends can be registered from outside before the runner starts.
+ */
+
+import type { ICrawler } from "../types/crawler.types.js";
+import { OPTIMIZED_PAGE_LOAD, PlaywrightCrawlerImpl } from "../playwright/crawler.js";
+import { CheerioCrawlerImpl } from "../cheerio/crawler.js";
+import { HttpCrawlerImpl } from "../http/crawler.js";
+import { JSDOMCrawlerImpl } from "../jsdom/crawler.js";
+import { LinkeDOMCrawlerImpl } from "../linkedom/crawler.js";
+import { AdaptivePlaywrightCrawlerImpl } from "../adaptive/crawler.js";
+
+export type CrawlerFactory = () => ICrawler;
+
+const registry = new Map<string, CrawlerFactory>();
+
+/**
+ * Register a crawler implementation under a name, replacing any existing one
+ */
+export function registerCrawler(name: string, factory: CrawlerFactory): void {
+  registry.set(name, factory);
+}
+
+/**
+ * Create a new instance of a registered crawler
+ */
+export function createCrawler(name: string): ICrawler {
+  const factory = registry.get(name);
+  if (!factory) {
+    throw new Error(`Unknown crawler "${name}". Available: ${getCrawlerNames().join(", ")}`);
+  }
+  return factory();
+}
+
+/**
+ * Names of all registered crawlers, in registration order
+ */
+export function getCrawlerNames(): string[] {
+  return [...registry.keys()];
+}
+
+registerCrawler("playwright", () => new PlaywrightCrawlerImpl());
+registerCrawler("playwright-optimized", () => new PlaywrightCrawlerImpl("playwright-optimized", OPTIMIZED_PAGE_LOAD));
+registerCrawler("cheerio", () => new CheerioCrawlerImpl());
+registerCrawler("http", () => new HttpCrawlerImpl());
+registerCrawler("jsdom", () => new JSDOMCrawlerImpl());
+registerCrawler("linkedom", () => new LinkeDOMCrawlerImpl());
+registerCrawler("adaptive", () => new AdaptivePlaywrightCrawlerImpl());
@@ -0,0 +1,41 @@
+/**
+ * Response metadata shared by the HTTP-based crawler implementations
+ */
+
+import type { Request } from "crawlee";
+import type { CrawlResult } from "../types/crawler.types.js";
+
+export interface HttpResponseLike {
+  statusCode?: number;
+  headers: Record<string, string | string[] | undefined>;
+  redirectUrls?: URL[];
+}
+
+function firstHeader(value: string | string[] | undefined): string | undefined {
+  return Array.isArray(value) ? value[0] : value;
+}
+
+/**
+ * Build response metadata (status, redirects, content type and size, validators) for a page
+ */
+export function getHttpResponseMetadata(
+  request: Request,
+  response: HttpResponseLike,
+  contentLength?: number,
+): Partial<CrawlResult["metadata"]> {
+  const redirectUrls = response.redirectUrls || [];
+  const contentType = response.headers["content-type"];
+  const lengthHeader = response.headers["content-length"];
+  const etag = firstHeader(response.headers.etag);
+  const lastModified = firstHeader(response.headers["last-modified"]);
+
+  return {
+    statusCode: response.statusCode || 200,
+    finalUrl: request.loadedUrl || request.url,
+    redirectChain: redirectUrls.length > 0 ? [request.url, ...redirectUrls.slice(0, -1).map(String)] : [],
+    contentType: firstHeader(contentType),
+    contentLength: contentLength ?? (typeof lengthHeader === "string" ? parseInt(lengthHeader, 10) : undefined),
+    ...(etag ? { etag } : {}),
+    ...(lastModified ? { lastModified } : {}),
+  };
+}
@@ -0,0 +1,122 @@
+/**
+ * Async iteration over the results of a running crawl
+ *
+ * The crawl starts right away and pushes each stored page into a buffer.
+ * Once iterating, the buffer is bounded: when it is full the crawl pauses
+ * until the consumer has taken half of it, so a slow consumer holds back the
+ * crawl instead of letting results pile up. Until then nothing waits for a
+ * consumer, so awaiting only `summary` finishes the crawl. Leaving the loop
+ * early aborts the crawl.
+ */
+
+import type { CrawlResult, CrawlStream, CrawlSummary } from "../types/crawler.types.js";
+
+const DEFAULT_BUFFER_SIZE = 100;
+
+/**
+ * The producing side of a stream
+ */
+export interface ResultSink {
+  /** Hand over a result; false once the buffer of an iterated stream is full, when the crawl should pause until `drain` resolves */
+  push(result: CrawlResult): boolean;
+  /** Resolves once the consumer has taken half of the buffer, or stopped iterating */
+  drain(): Promise<void>;
+  /** Aborts when the consumer stops iterating */
+  readonly signal: AbortSignal;
+}
+
+/**
+ * Runs a crawl, pushing every page to the sink
+ */
+export type StreamedRun = (sink: ResultSink) => Promise<CrawlSummary>;
+
+/**
+ * Stream of the results of one crawl
+ */
+export class ResultStream implements CrawlStream {
+  readonly summary: Promise<CrawlSummary>;
+  private readonly buffer: CrawlResult[] = [];
+  private readonly controller = new AbortController();
+  private drainWaiters: Array<() => void> = [];
+  private finished = false;
+  private error: unknown;
+  private iterated = false;
+  private wake?: () => void;
+
+  /**
+   * @param bufferSize Results held for the consumer before the crawl pauses
+   */
+  constructor(
+    run: StreamedRun,
+    private readonly bufferSize = DEFAULT_BUFFER_SIZE,
+  ) {
+    this.summary = run({
+      push: (result) => {
+        this.buffer.push(result);
+        this.notify();
+        return !this.iterated || this.buffer.length < this.bufferSize;
+      },
+      drain: () => (this.drained() ? Promise.resolve() : new Promise((resolve) => this.drainWaiters.push(resolve))),
+      signal: this.controller.signal,
+    });
+    // Also handles the rejection for callers that only iterate
+    this.summary.then(
+      () => this.finish(),
+      (error: unknown) => this.finish(error),
+    );
+  }
+
+  async *[Symbol.asyncIterator](): AsyncIterator<CrawlResult> {
+    if (this.iterated) {
+      throw new Error("A crawl stream can only be iterated once");
+    }
+    this.iterated = true;
+
+    try {
+      while (true) {
+        const result = this.buffer.shift();
+        if (result) {
+          this.releaseDrainWaiters();
+          yield result;
+          continue;
+        }
+        if (this.finished) {
+          if (this.error !== undefined) throw this.error;
+          return;
+        }
+        await new Promise<void>((resolve) => {
+          this.wake = resolve;
+        });
+      }
+    } finally {
+      if (!this.finished) {
+        this.controller.abort();
+        this.releaseDrainWaiters();
+      }
+    }
+  }
+
+  private drained(): boolean {
+    return !this.iterated || this.buffer.length <= this.bufferSize / 2 || this.controller.signal.aborted;
+  }
+
+  private releaseDrainWaiters(): void {
+    if (this.drainWaiters.length > 0 && this.drained()) {
+      const waiters = this.drainWaiters;
+      this.drainWaiters = [];
+      waiters.forEach((resolve) => resolve());
+    }
+  }
+
+  private finish(error?: unknown): void {
+    this.finished = true;
+    this.error = error;
+    this.notify();
+  }
+
+  private notify(): void {
+    const wake = this.wake;
+    this.wake = undefined;
+    wake?.();
+  }
+}
@@ -0,0 +1,79 @@
+/**
+ * Retry policy and error classification of crawl requests
+ *
+ * Crawlee retries a request whenever navigation or the request handler
+ * throws. Errors are classified by their messages, which differ per backend
+ * (HTTP client, browser engine); parse and handler errors are tagged where
+ * they are thrown, as their messages say nothing about where they came from.
+ */
+
+import { sleep, type Request } from "crawlee";
+import type { ErrorClass } from "../types/crawler.types.js";
+
+export const ERROR_CLASSES: ErrorClass[] = [
+  "timeout",
+  "dns",
+  "http-4xx",
+  "http-5xx",
+  "navigation",
+  "parse",
+  "handler",
+  "crawler",
+];
+
+/** Messages of Crawlee's status code errors, e.g. "503 - Internal Server Error: ..." or "Request blocked - received 429 status code." */
+const STATUS_PATTERNS = [/^(\d{3}) - /, /received (\d{3}) status code/i, /blocked by status code (\d{3})/i, /blocked status code: (\d{3})/i];
+const TIMEOUT_PATTERN = /timed out|timeout|ETIMEDOUT|ESOCKETTIMEDOUT/i;
+const DNS_PATTERN = /ENOTFOUND|EAI_AGAIN|getaddrinfo|ERR_NAME_NOT_RESOLVED|NS_ERROR_UNKNOWN_HOST|could not resolve host/i;
+
+/**
+ * Error of a request handler stage, carrying its class
+ */
+export class ClassifiedError extends Error {
+  constructor(
+    readonly errorClass: ErrorClass,
+    cause: unknown,
+  ) {
+    super(cause instanceof Error ? cause.message : String(cause), { cause });
+    this.name = "ClassifiedError";
+  }
+}
+
+/**
+ * Error for a page whose status code is configured to be retried
+ * The message follows Crawlee's own status errors, so it is classified the same way.
+ */
+export function createStatusError(statusCode: number): Error {
+  return new Error(`${statusCode} - Status code set to be retried`);
+}
+
+/**
+ * Class of an error; errors that match nothing get `fallback`
+ */
+export function classifyError(error: unknown, fallback: ErrorClass = "navigation"): ErrorClass {
+  if (error instanceof ClassifiedError) {
+    return error.errorClass;
+  }
+  const message = error instanceof Error ? error.message : String(error);
+  for (const pattern of STATUS_PATTERNS) {
+    const match = pattern.exec(message);
+    if (match) {
+      return parseInt(match[1], 10) >= 500 ? "http-5xx" : "http-4xx";
+    }
+  }
+  if (TIMEOUT_PATTERN.test(message)) return "timeout";
+  if (DNS_PATTERN.test(message)) return "dns";
+  return fallback;
+}
+
+/**
+ * Pre-navigation hook that waits `backoff` milliseconds before a request's first retry,
+ * twice as long before the second, and so on
+ */
+export function createBackoffHook(backoff: number): (context: { request: Request }) => Promise<void> {
+  return async ({ request }) => {
+    if (request.retryCount > 0) {
+      await sleep(backoff * 2 ** (request.retryCount - 1));
+    }
+  };
+}
@@ -0,0 +1,138 @@
+/**
+ * robots.txt and sitemap discovery for polite crawls
+ *
+ * Disallow rules are enforced by Crawlee itself (`respectRobotsTxtFile`);
+ * this module reads what Crawlee does not use: the crawl-delay of the
+ * matching user-agent group and the sitemaps listed in robots.txt.
+ * Crawl-delay requeues early requests like Crawlee's `sameDomainDelaySecs`,
+ * but per origin: that option ignores hosts without a registrable domain
+ * such as `localhost` and IP addresses (including the fixture server).
+ */
+
+import { RobotsTxtFile, Sitemap, type BasicCrawler, type Request, type RequestProvider } from "crawlee";
+
+const ROBOTS_TIMEOUT = 10000;
+
+export interface RobotsInfo {
+  /** Seconds to wait between requests, from the matching group's Crawl-delay */
+  crawlDelay?: number;
+  /** Absolute URLs of the `Sitemap:` lines */
+  sitemaps: string[];
+}
+
+/**
+ * Product token robots.txt groups are matched by, e.g. "mybot" for "MyBot/1.2"
+ */
+function productToken(userAgent: string): string {
+  return userAgent.split("/")[0].trim().toLowerCase();
+}
+
+/**
+ * Crawl-delay of the group for the user agent, falling back to the `*` group
+ */
+export function parseCrawlDelay(content: string, userAgent = "*"): number | undefined {
+  const token = productToken(userAgent);
+  const delays = new Map<string, number>();
+  let agents: string[] = [];
+  let inRules = false;
+
+  for (const rawLine of content.split(/\r?\n/)) {
+    const line = rawLine.replace(/#.*$/, "").trim();
+    const separator = line.indexOf(":");
+    if (separator === -1) {
+      continue;
+    }
+    const field = line.slice(0, separator).trim().toLowerCase();
+    const value = line.slice(separator + 1).trim();
+
+    if (field === "user-agent") {
+      // User-agent lines after rules start a new group
+      if (inRules) {
+        agents = [];
+        inRules = false;
+      }
+      agents.push(productToken(value));
+      continue;
+    }
+    inRules = true;
+    const delay = Number(value);
+    if (field === "crawl-delay" && value !== "" && delay >= 0) {
+      for (const agent of agents) {
+        if (!delays.has(agent)) delays.set(agent, delay);
+      }
+    }
+  }
+
+  return delays.get(token) ?? delays.get("*");
+}
+
+/**
+ * Fetch the robots.txt of a URL's origin; a missing or unreachable file means no restrictions
+ */
+export async function fetchRobotsInfo(url: string, userAgent = "*"): Promise<RobotsInfo> {
+  const robotsUrl = new URL("/robots.txt", url).href;
+  let content: string;
+  try {
+    const response = await fetch(robotsUrl, { signal: AbortSignal.timeout(ROBOTS_TIMEOUT) });
+    if (!response.ok) {
+      return { sitemaps: [] };
+    }
+    content = await response.text();
+  } catch {
+    return { sitemaps: [] };
+  }
+
+  const crawlDelay = parseCrawlDelay(content, userAgent);
+  return {
+    ...(crawlDelay !== undefined ? { crawlDelay } : {}),
+    sitemaps: RobotsTxtFile.from(robotsUrl, content).getSitemaps(),
+  };
+}
+
+/**
+ * Page URLs on the start URL's host listed in its sitemaps
+ *
+ * Uses the `Sitemap:` lines of robots.txt, or `/sitemap.xml` and `/sitemap.txt`
+ * when there are none. Sitemap indexes are followed.
+ */
+export async function discoverSitemapUrls(startUrl: string, sitemaps: string[]): Promise<string[]> {
+  const sitemap = sitemaps.length > 0 ? await Sitemap.load(sitemaps) : await Sitemap.tryCommonNames(startUrl);
+  const host = new URL(startUrl).host;
+  const urls = new Set<string>();
+  for (const url of sitemap.urls) {
+    try {
+      if (new URL(url).host === host) urls.add(url);
+    } catch {
+      continue;
+    }
+  }
+  return [...urls];
+}
+
+/** The part of a Crawlee crawler that decides whether a request has to wait */
+interface DelayingCrawler {
+  delayRequest(request: Request, source: RequestProvider): boolean;
+}
+
+/**
+ * Space requests to the same origin at least `seconds` apart
+ * Like Crawlee's `sameDomainDelaySecs`, a request that comes too early goes back to the queue until its
+ * origin is free again, so it neither holds a concurrency slot nor runs into a timeout while it waits.
+ * Crawlee's own delay is keyed by registrable domain, which IP addresses and `localhost` lack.
+ */
+export function applyCrawlDelay(crawler: Pick<BasicCrawler, "run">, seconds: number): void {
+  const lastStart = new Map<string, number>();
+  (crawler as unknown as DelayingCrawler).delayRequest = (request, source) => {
+    const origin = new URL(request.url).origin;
+    const now = Date.now();
+    const free = (lastStart.get(origin) ?? 0) + seconds * 1000;
+    if (now >= free) {
+      lastStart.set(origin, now);
+      return false;
+    }
+    // The run may have ended by then, taking its queue with it
+    const forefront = (request.userData as { __crawlee?: { forefront?: boolean } }).__crawlee?.forefront;
+    setTimeout(() => source.reclaimRequest(request, { forefront }).catch(() => undefined), free - now).unref();
+    return true;
+  };
+}
@@ -0,0 +1,118 @@
+/**
+ * CSS selector rule sets
+ *
+ * Rules come from scenario files (`cssRules`) or a JSON/YAML file passed to
+ * `--css-rules`, so they are validated up front, selectors included.
+ */
+
+import { readFileSync } from "fs";
+import { extname } from "path";
+import { load } from "cheerio";
+import { parse as parseYaml } from "yaml";
+import type { CssRule, CssRuleSet, CssValues, Extractor } from "../types/extractor.types.js";
+
+const RULE_FIELDS = new Set(["selector", "attribute", "multiple"]);
+
+export interface CssRuleError {
+  /** Path of the problem below the rule set, e.g. `price.selector` */
+  path: string;
+  message: string;
+}
+
+function normalizeText(text: string): string {
+  return text.replace(/\s+/g, " ").trim();
+}
+
+function selectorError(selector: string): string | undefined {
+  try {
+    load("")(selector);
+    return undefined;
+  } catch (error) {
+    return `invalid selector ${JSON.stringify(selector)}: ${error instanceof Error ? error.message : String(error)}`;
+  }
+}
+
+/**
+ * Problems of a rule set; empty when it is valid
+ */
+export function checkCssRules(value: unknown): CssRuleError[] {
+  if (typeof value !== "object" || value === null || Array.isArray(value)) {
+    return [{ path: "", message: "expected an object of rules keyed by value name" }];
+  }
+
+  const errors: CssRuleError[] = [];
+  for (const [name, rule] of Object.entries(value)) {
+    if (typeof rule === "string") {
+      const error = selectorError(rule);
+      if (error) errors.push({ path: name, message: error });
+      continue;
+    }
+    if (typeof rule !== "object" || rule === null || Array.isArray(rule)) {
+      errors.push({ path: name, message: "expected a selector string or { selector, attribute?, multiple? }" });
+      continue;
+    }
+
+    const fields = rule as Record<string, unknown>;
+    for (const key of Object.keys(fields).filter((key) => !RULE_FIELDS.has(key))) {
+      errors.push({ path: `${name}.${key}`, message: `unknown field (allowed: ${[...RULE_FIELDS].join(", ")})` });
+    }
+    if (typeof fields.selector !== "string" || fields.selector.trim() === "") {
+      errors.push({ path: `${name}.selector`, message: "expected a non-empty string" });
+    } else {
+      const error = selectorError(fields.selector);
+      if (error) errors.push({ path: `${name}.selector`, message: error });
+    }
+    if (fields.attribute !== undefined && typeof fields.attribute !== "string") {
+      errors.push({ path: `${name}.attribute`, message: "expected a string" });
+    }
+    if (fields.multiple !== undefined && typeof fields.multiple !== "boolean") {
+      errors.push({ path: `${name}.multiple`, message: "expected true or false" });
+    }
+  }
+  return errors;
+}
+
+/**
+ * Load and validate a rule set from a JSON or YAML file
+ */
+export function loadCssRules(path: string): CssRuleSet {
+  let value: unknown;
+  try {
+    const content = readFileSync(path, "utf8");
+    value = extname(path) === ".json" ? JSON.parse(content) : parseYaml(content);
+  } catch (error) {
+    throw new Error(`Cannot read CSS rules ${path}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  const errors = checkCssRules(value);
+  if (errors.length > 0) {
+    const lines = errors.map((error) => `${error.path || "$"}: ${error.message}`);
+    throw new Error(`Invalid CSS rules ${path}:\n  ${lines.join("\n  ")}`);
+  }
+  return value as CssRuleSet;
+}
+
+/**
+ * Extractor that applies a rule set to every page
+ */
+export function createCssExtractor(rules: CssRuleSet): Extractor<CssValues> {
+  const normalized = Object.entries(rules).map(([name, rule]): [string, CssRule] => [
+    name,
+    typeof rule === "string" ? { selector: rule } : rule,
+  ]);
+
+  return {
+    name: "css",
+    extract({ $ }) {
+      const values: CssValues = {};
+      for (const [name, rule] of normalized) {
+        const matches = $(rule.selector)
+          .toArray()
+          .map((element) => (rule.attribute ? $(element).attr(rule.attribute) : normalizeText($(element).text())))
+          .filter((value): value is string => value !== undefined);
+        values[name] = rule.multiple ? matches : (matches[0] ?? null);
+      }
+      return values;
+    },
+  };
+}
@@ -0,0 +1,45 @@
+/**
+ * Link list of a page
+ */
+
+import type { CheerioAPI } from "cheerio";
+import type { Extractor, PageLink } from "../types/extractor.types.js";
+
+/**
+ * http(s) links of the page, resolved and without fragments, first occurrence of each URL
+ */
+export function extractLinks($: CheerioAPI, url: string): PageLink[] {
+  const baseUrl = new URL($("base[href]").attr("href") || url, url);
+  const pageHost = new URL(url).host;
+  const links = new Map<string, PageLink>();
+
+  $("a[href]").each((_, element) => {
+    let target: URL;
+    try {
+      target = new URL($(element).attr("href")!, baseUrl);
+    } catch {
+      return;
+    }
+    if (target.protocol !== "http:" && target.protocol !== "https:") {
+      return;
+    }
+    target.hash = "";
+    if (links.has(target.href)) {
+      return;
+    }
+
+    const rel = $(element).attr("rel");
+    links.set(target.href, {
+      url: target.href,
+      text: $(element).text().replace(/\s+/g, " ").trim(),
+      ...(rel ? { rel } : {}),
+      internal: target.host === pageHost,
+    });
+  });
+  return [...links.values()];
+}
+
+export const linksExtractor: Extractor<PageLink[]> = {
+  name: "links",
+  extract: ({ $, url }) => extractLinks($, url),
+};
@@ -0,0 +1,46 @@
+/**
+ * Readable main text of a page
+ *
+ * A simple heuristic rather than a full readability algorithm: take the
+ * longest `article` / `main` element (or the body), drop navigation, scripts
+ * and other chrome, and keep one line per block element.
+ */
+
+import type { Extractor, ReadableText } from "../types/extractor.types.js";
+
+const CONTENT_SELECTORS = ["article", "main", '[role="main"]'];
+const NOISE_SELECTOR = "script, style, noscript, template, svg, iframe, nav, header, footer, aside, form";
+const BLOCK_SELECTOR =
+  "p, div, section, article, main, h1, h2, h3, h4, h5, h6, li, dt, dd, pre, blockquote, figcaption, table, tr, br";
+
+export const readableTextExtractor: Extractor<ReadableText> = {
+  name: "text",
+  extract({ $ }) {
+    const candidates = CONTENT_SELECTORS.flatMap((selector) =>
+      $(selector)
+        .toArray()
+        .map((element) => ({ element, source: selector, length: $(element).text().length })),
+    );
+    const best = candidates.sort((a, b) => b.length - a.length)[0];
+
+    const root = (best ? $(best.element) : $("body")).clone();
+    root.find(NOISE_SELECTOR).remove();
+    // Separate blocks so their text does not run together
+    root.find(BLOCK_SELECTOR).each((_, element) => {
+      $(element).before("\n").after("\n");
+    });
+
+    const text = root
+      .text()
+      .split("\n")
+      .map((line) => line.replace(/\s+/g, " ").trim())
+      .filter((line) => line !== "")
+      .join("\n");
+
+    return {
+      text,
+      wordCount: text === "" ? 0 : text.split(/\s+/).length,
+      source: best?.source ?? "body",
+    };
+  },
+};
@@ -0,0 +1,70 @@
+/**
+ * Extractor registry and pipeline
+ *
+ * Maps the names accepted by `--extract` to extractors. Every crawler backend
+ * runs the same pipeline on the HTML it captured (Cheerio's parsed document,
+ * Playwright's rendered page), so results are comparable across backends;
+ * HTML is only parsed here when the backend has not parsed it with Cheerio.
+ * The `css` extractor needs a rule set and is created with `createCssExtractor`.
+ */
+
+import { load, type CheerioAPI } from "cheerio";
+import type { Extractor, PageData } from "../types/extractor.types.js";
+import { jsonLdExtractor, microdataExtractor, openGraphExtractor } from "./structured-data.js";
+import { readableTextExtractor } from "./readable-text.js";
+import { linksExtractor } from "./links.js";
+
+const registry = new Map<string, Extractor>();
+
+/**
+ * Register an extractor under its name, replacing any existing one
+ */
+export function registerExtractor(extractor: Extractor): void {
+  registry.set(extractor.name, extractor);
+}
+
+/**
+ * Look up a registered extractor
+ */
+export function getExtractor(name: string): Extractor {
+  const extractor = registry.get(name);
+  if (!extractor) {
+    throw new Error(`Unknown extractor "${name}". Available: ${getExtractorNames().join(", ")}`);
+  }
+  return extractor;
+}
+
+/**
+ * Names of all registered extractors, in registration order
+ */
+export function getExtractorNames(): string[] {
+  return [...registry.keys()];
+}
+
+/**
+ * Run extractors in order on a page's HTML, or on the document a backend already parsed it into
+ * An extractor that throws fails the page, like any other handler error.
+ */
+export async function extractPageData(
+  extractors: Extractor[],
+  url: string,
+  html: string,
+  $?: CheerioAPI,
+): Promise<PageData> {
+  const context = { url, $: $ ?? load(html) };
+  const data: PageData = {};
+  for (const extractor of extractors) {
+    try {
+      data[extractor.name] = await extractor.extract(context);
+    } catch (error) {
+      throw new Error(`Extractor "${extractor.name}" failed: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+  return data;
+}
+
+registerExtractor(jsonLdExtractor);
+registerExtractor(microdataExtractor);
+registerExtractor(openGraphExtractor);
+registerExtractor(readableTextExtractor);
+registerExtractor(linksExtractor);
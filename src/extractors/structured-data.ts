@@ -0,0 +1,131 @@
+/**
+ * JSON-LD, microdata and OpenGraph extractors
+ */
+
+import type { CheerioAPI, Cheerio } from "cheerio";
+import type { Extractor, MicrodataItem } from "../types/extractor.types.js";
+
+/** Element type of Cheerio selections, which cheerio does not export by name */
+type DomNode = ReturnType<CheerioAPI> extends Cheerio<infer T> ? T : never;
+
+// Microdata properties whose value is a URL attribute rather than the text
+const URL_ATTRIBUTES: Record<string, string> = {
+  a: "href",
+  area: "href",
+  link: "href",
+  audio: "src",
+  embed: "src",
+  iframe: "src",
+  img: "src",
+  source: "src",
+  track: "src",
+  video: "src",
+  object: "data",
+};
+
+function flattenJsonLd(value: unknown): unknown[] {
+  if (Array.isArray(value)) {
+    return value.flatMap(flattenJsonLd);
+  }
+  if (value && typeof value === "object" && Array.isArray((value as { "@graph"?: unknown })["@graph"])) {
+    const { "@graph": graph, ...rest } = value as { "@graph": unknown[] };
+    return [...(Object.keys(rest).some((key) => key !== "@context") ? [rest] : []), ...graph.flatMap(flattenJsonLd)];
+  }
+  return [value];
+}
+
+/**
+ * `<script type="application/ld+json">` blocks; blocks that are not valid JSON are skipped
+ */
+export const jsonLdExtractor: Extractor<unknown[]> = {
+  name: "jsonLd",
+  extract({ $ }) {
+    return $('script[type="application/ld+json"]')
+      .toArray()
+      .flatMap((element) => {
+        try {
+          return flattenJsonLd(JSON.parse($(element).text()));
+        } catch {
+          return [];
+        }
+      });
+  },
+};
+
+function resolveUrl(value: string, baseUrl: string): string {
+  try {
+    return new URL(value, baseUrl).href;
+  } catch {
+    return value;
+  }
+}
+
+function propertyValue($: CheerioAPI, element: DomNode, baseUrl: string): string | MicrodataItem {
+  const node = $(element);
+  if (node.is("[itemscope]")) {
+    return readItem($, element, baseUrl);
+  }
+
+  const tag = String(node.prop("tagName") || "").toLowerCase();
+  if (tag === "meta") return node.attr("content") ?? "";
+  if (URL_ATTRIBUTES[tag]) return resolveUrl(node.attr(URL_ATTRIBUTES[tag]) ?? "", baseUrl);
+  if (tag === "data" || tag === "meter") return node.attr("value") ?? "";
+  if (tag === "time") return node.attr("datetime") ?? node.text().trim();
+  return node.text().replace(/\s+/g, " ").trim();
+}
+
+function readItem($: CheerioAPI, element: DomNode, baseUrl: string): MicrodataItem {
+  const node = $(element);
+  const item: MicrodataItem = {
+    type: (node.attr("itemtype") || "").split(/\s+/).filter((type) => type !== ""),
+    properties: {},
+  };
+  const id = node.attr("itemid");
+  if (id) {
+    item.id = resolveUrl(id, baseUrl);
+  }
+
+  // Properties belong to the nearest enclosing item, so skip those of nested items
+  node.find("[itemprop]").each((_, property) => {
+    if ($(property).parent().closest("[itemscope]")[0] !== element) {
+      return;
+    }
+    const value = propertyValue($, property, baseUrl);
+    for (const name of ($(property).attr("itemprop") || "").split(/\s+/).filter((name) => name !== "")) {
+      (item.properties[name] ||= []).push(value);
+    }
+  });
+  return item;
+}
+
+/**
+ * Top-level microdata items (`itemscope` elements that are not a property of another item)
+ * `itemref` is not followed.
+ */
+export const microdataExtractor: Extractor<MicrodataItem[]> = {
+  name: "microdata",
+  extract({ $, url }) {
+    return $("[itemscope]")
+      .not("[itemprop]")
+      .toArray()
+      .map((element) => readItem($, element, url));
+  },
+};
+
+/**
+ * OpenGraph `og:*` meta properties; the first value wins when a property repeats
+ */
+export const openGraphExtractor: Extractor<Record<string, string>> = {
+  name: "openGraph",
+  extract({ $ }) {
+    const properties: Record<string, string> = {};
+    $('meta[property^="og:"]').each((_, element) => {
+      const property = ($(element).attr("property") || "").slice(3);
+      const content = $(element).attr("content");
+      if (property && content !== undefined && !(property in properties)) {
+        properties[property] = content;
+      }
+    });
+    return properties;
+  },
+};
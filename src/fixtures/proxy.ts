@@ -0,0 +1,210 @@
+/**
+ * Local forwarding proxy, a stand-in for a proxy service
+ *
+ * Proxy URLs written as `local` or `local?latency=<ms>` start one of these
+ * on a free port, so proxy overhead can be measured without an outside
+ * service. Plain HTTP requests are forwarded (absolute-URI form) and HTTPS
+ * goes through CONNECT tunnels. No authentication, loopback only.
+ */
+
+import {
+  createServer,
+  request as httpRequest,
+  type IncomingMessage,
+  type Server,
+  type ServerResponse,
+} from "http";
+import { connect, type AddressInfo, type Socket } from "net";
+import type { LocalProxyStats } from "../types/fixture.types.js";
+
+export type { LocalProxyStats };
+
+const LOCAL_PROXY = "local";
+
+/**
+ * Check whether a proxy URL stands for a local forwarding proxy
+ */
+export function isLocalProxyUrl(url: string): boolean {
+  return url === LOCAL_PROXY || url.startsWith(`${LOCAL_PROXY}?`);
+}
+
+/**
+ * Forwarding HTTP proxy on 127.0.0.1
+ */
+export class LocalProxy {
+  private server?: Server;
+  private readonly sockets = new Set<Socket>();
+  readonly stats: LocalProxyStats = { requests: 0, tunnels: 0, bytes: 0 };
+
+  /**
+   * @param latency Delay in milliseconds added before every request is forwarded
+   */
+  constructor(private readonly latency = 0) {}
+
+  /**
+   * Create a proxy for a `local?latency=<ms>` URL
+   */
+  static fromUrl(url: string): LocalProxy {
+    if (!isLocalProxyUrl(url)) {
+      throw new Error(`Not a local proxy URL: ${url}`);
+    }
+    const params = new URLSearchParams(url.slice(LOCAL_PROXY.length + 1));
+    for (const key of params.keys()) {
+      if (key !== "latency") {
+        throw new Error(`Unknown local proxy option "${key}"`);
+      }
+    }
+    const latency = Number(params.get("latency") ?? 0);
+    if (!Number.isInteger(latency) || latency < 0) {
+      throw new Error(`Invalid local proxy option "latency=${params.get("latency")}": expected an integer >= 0`);
+    }
+    return new LocalProxy(latency);
+  }
+
+  /**
+   * Proxy URL of the running server
+   */
+  get url(): string {
+    if (!this.server) {
+      throw new Error("Local proxy is not running");
+    }
+    const { port } = this.server.address() as AddressInfo;
+    return `http://127.0.0.1:${port}`;
+  }
+
+  /**
+   * Start listening and return the proxy URL
+   */
+  async start(port = 0): Promise<string> {
+    if (this.server) {
+      return this.url;
+    }
+
+    const server = createServer((req, res) => this.delay(() => this.forward(req, res)));
+    server.on("connect", (req: IncomingMessage, socket: Socket, head: Buffer) =>
+      this.delay(() => this.tunnel(req, socket, head)),
+    );
+    server.on("connection", (socket: Socket) => {
+      this.sockets.add(socket);
+      socket.once("close", () => this.sockets.delete(socket));
+    });
+    await new Promise<void>((resolve, reject) => {
+      server.once("error", reject);
+      server.listen(port, "127.0.0.1", () => {
+        server.off("error", reject);
+        resolve();
+      });
+    });
+    this.server = server;
+
+    return this.url;
+  }
+
+  /**
+   * Stop the server and close open connections and tunnels
+   */
+  async stop(): Promise<void> {
+    const server = this.server;
+    if (!server) {
+      return;
+    }
+    this.server = undefined;
+
+    await new Promise<void>((resolve, reject) => {
+      server.close((error) => (error ? reject(error) : resolve()));
+      for (const socket of this.sockets) {
+        socket.destroy();
+      }
+    });
+  }
+
+  /**
+   * Clear the counters, e.g. between benchmark runs
+   */
+  resetStats(): void {
+    Object.assign(this.stats, { requests: 0, tunnels: 0, bytes: 0 });
+  }
+
+  private delay(action: () => void): void {
+    if (this.latency > 0) {
+      setTimeout(action, this.latency);
+    } else {
+      action();
+    }
+  }
+
+  private forward(req: IncomingMessage, res: ServerResponse): void {
+    let target: URL;
+    try {
+      target = new URL(req.url || "");
+    } catch {
+      res.writeHead(400, { "Content-Type": "text/plain; charset=utf-8" });
+      res.end("Expected an absolute URL");
+      return;
+    }
+    if (target.protocol !== "http:") {
+      res.writeHead(400, { "Content-Type": "text/plain; charset=utf-8" });
+      res.end("Only http:// URLs are forwarded; use CONNECT for https://");
+      return;
+    }
+
+    this.stats.requests++;
+    const headers = { ...req.headers };
+    delete headers["proxy-connection"];
+    delete headers["proxy-authorization"];
+
+    const upstream = httpRequest(
+      {
+        hostname: target.hostname,
+        port: target.port || 80,
+        path: `${target.pathname}${target.search}`,
+        method: req.method,
+        headers,
+      },
+      (response) => {
+        res.writeHead(response.statusCode || 502, response.headers);
+        response.on("data", (chunk: Buffer) => {
+          this.stats.bytes += chunk.length;
+        });
+        response.pipe(res);
+      },
+    );
+    upstream.on("error", (error) => {
+      if (!res.headersSent) {
+        res.writeHead(502, { "Content-Type": "text/plain; charset=utf-8" });
+      }
+      res.end(`Proxy error: ${error.message}`);
+    });
+    req.pipe(upstream);
+  }
+
+  private tunnel(req: IncomingMessage, socket: Socket, head: Buffer): void {
+    const [hostname, port] = (req.url || "").split(":");
+    this.stats.tunnels++;
+    let established = false;
+
+    const upstream = connect(Number(port) || 443, hostname, () => {
+      established = true;
+      socket.write("HTTP/1.1 200 Connection Established\r\n\r\n");
+      if (head.length > 0) {
+        upstream.write(head);
+      }
+      upstream.on("data", (chunk: Buffer) => {
+        this.stats.bytes += chunk.length;
+      });
+      upstream.pipe(socket);
+      socket.pipe(upstream);
+    });
+    this.sockets.add(upstream);
+    upstream.once("close", () => this.sockets.delete(upstream));
+    upstream.on("error", () => {
+      // Before the tunnel is up the client still expects a CONNECT response
+      if (!established && socket.writable) {
+        socket.end("HTTP/1.1 502 Bad Gateway\r\n\r\n");
+      } else {
+        socket.destroy();
+      }
+    });
+    socket.on("error", () => upstream.destroy());
+  }
+}
@@ -0,0 +1,226 @@
+/**
+ * Local HTTP server that serves a generated fixture site
+ */
+
+import { createHash } from "crypto";
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from "http";
+import type { AddressInfo } from "net";
+import type { FixturePage, FixtureSite } from "../types/fixture.types.js";
+import {
+  generateSite,
+  getLastModified,
+  getSitemapCount,
+  parseFixtureUrl,
+  renderAsset,
+  renderPage,
+  renderRobotsTxt,
+  renderSitemap,
+  renderSitemapIndex,
+} from "./sites.js";
+
+interface FixtureResponse {
+  /** Default: 200 */
+  status?: number;
+  contentType: string;
+  body: string;
+  /** Set for pages, which answer conditional requests */
+  lastModified?: Date;
+}
+
+/**
+ * Fixture website server
+ */
+export class FixtureServer {
+  private server?: Server;
+  private readonly pages: FixturePage[];
+  /** Requests per failing page, for `failTimes` */
+  private readonly failures = new Map<number, number>();
+
+  constructor(private readonly site: FixtureSite) {
+    this.pages = generateSite(site.options);
+  }
+
+  /**
+   * Create a server for a `fixture://` URL
+   */
+  static fromUrl(url: string): FixtureServer {
+    return new FixtureServer(parseFixtureUrl(url));
+  }
+
+  /**
+   * Number of pages the site actually contains (after depth limits)
+   */
+  get pageCount(): number {
+    return this.pages.length;
+  }
+
+  /**
+   * Base URL of the running server
+   */
+  get url(): string {
+    if (!this.server) {
+      throw new Error("Fixture server is not running");
+    }
+    const { port } = this.server.address() as AddressInfo;
+    return `http://127.0.0.1:${port}/`;
+  }
+
+  /**
+   * Start listening and return the start page URL
+   */
+  async start(port = 0): Promise<string> {
+    if (this.server) {
+      return this.url;
+    }
+
+    const server = createServer((req, res) => this.handleRequest(req, res));
+    await new Promise<void>((resolve, reject) => {
+      server.once("error", reject);
+      server.listen(port, "127.0.0.1", () => {
+        server.off("error", reject);
+        resolve();
+      });
+    });
+    this.server = server;
+
+    return this.url;
+  }
+
+  /**
+   * Forget how often failing pages were requested, so they fail again, e.g. between benchmark runs
+   */
+  resetFailures(): void {
+    this.failures.clear();
+  }
+
+  /**
+   * Content revision of every fifth page
+   */
+  get revision(): number {
+    return this.site.options.revision;
+  }
+
+  /**
+   * Change the revision of the revised pages, e.g. to recrawl a changed site incrementally
+   */
+  setRevision(revision: number): void {
+    this.site.options.revision = revision;
+  }
+
+  /**
+   * Stop the server and close open connections
+   */
+  async stop(): Promise<void> {
+    const server = this.server;
+    if (!server) {
+      return;
+    }
+    this.server = undefined;
+
+    await new Promise<void>((resolve, reject) => {
+      server.close((error) => (error ? reject(error) : resolve()));
+      server.closeAllConnections();
+    });
+  }
+
+  private handleRequest(req: IncomingMessage, res: ServerResponse): void {
+    const path = new URL(req.url || "/", "http://localhost").pathname;
+    const response = this.route(path);
+
+    setTimeout(() => {
+      if (!response) {
+        res.writeHead(404, { "Content-Type": "text/plain; charset=utf-8" });
+        res.end("Not Found");
+        return;
+      }
+
+      if (response.lastModified) {
+        const validators = {
+          ETag: `"${createHash("sha1").update(response.body).digest("hex").slice(0, 16)}"`,
+          "Last-Modified": response.lastModified.toUTCString(),
+        };
+        if (isNotModified(req, validators.ETag, response.lastModified)) {
+          res.writeHead(304, validators);
+          res.end();
+          return;
+        }
+        res.setHeader("ETag", validators.ETag);
+        res.setHeader("Last-Modified", validators["Last-Modified"]);
+      }
+
+      res.writeHead(response.status ?? 200, {
+        "Content-Type": response.contentType,
+        "Content-Length": Buffer.byteLength(response.body),
+      });
+      res.end(req.method === "HEAD" ? undefined : response.body);
+    }, this.site.options.latency);
+  }
+
+  private route(path: string): FixtureResponse | undefined {
+    if (path === "/robots.txt") {
+      const body = renderRobotsTxt(this.site, this.url);
+      return body === undefined ? undefined : { contentType: "text/plain; charset=utf-8", body };
+    }
+
+    if (this.site.options.sitemap) {
+      if (path === "/sitemap.xml") {
+        return { contentType: "application/xml", body: renderSitemapIndex(this.pages, this.url) };
+      }
+      const match = /^\/sitemaps\/(\d+)\.xml$/.exec(path);
+      const index = match ? parseInt(match[1], 10) : -1;
+      if (index >= 0 && index < getSitemapCount(this.pages)) {
+        return { contentType: "application/xml", body: renderSitemap(this.pages, index, this.url) };
+      }
+    }
+
+    const asset = renderAsset(this.site, this.pages, path);
+    if (asset) {
+      return asset;
+    }
+
+    const page = this.findPage(path);
+    if (page && this.shouldFail(page)) {
+      const status = this.site.options.failStatus;
+      return { status, contentType: "text/html; charset=utf-8", body: `<html><head><title>Error ${status}</title></head></html>` };
+    }
+    return page
+      ? {
+          contentType: "text/html; charset=utf-8",
+          body: renderPage(this.site, page),
+          lastModified: getLastModified(this.site, page),
+        }
+      : undefined;
+  }
+
+  private shouldFail(page: FixturePage): boolean {
+    const { failEvery, failTimes } = this.site.options;
+    if (failEvery === 0 || page.index === 0 || page.index % failEvery !== 0) {
+      return false;
+    }
+    const requests = (this.failures.get(page.index) ?? 0) + 1;
+    this.failures.set(page.index, requests);
+    return failTimes === 0 || requests <= failTimes;
+  }
+
+  private findPage(path: string): FixturePage | undefined {
+    if (path === "/") {
+      return this.pages[0];
+    }
+
+    const match = /^\/page\/(\d+)$/.exec(path);
+    return match ? this.pages[parseInt(match[1], 10)] : undefined;
+  }
+}
+
+/**
+ * Whether a conditional request's validators still match the page
+ * If-None-Match takes precedence over If-Modified-Since, as in RFC 9110.
+ */
+function isNotModified(req: IncomingMessage, etag: string, lastModified: Date): boolean {
+  const ifNoneMatch = req.headers["if-none-match"];
+  if (ifNoneMatch) {
+    return ifNoneMatch.split(",").some((tag) => tag.trim().replace(/^W\//, "") === etag);
+  }
+  const ifModifiedSince = Date.parse(req.headers["if-modified-since"] ?? "");
+  return !Number.isNaN(ifModifiedSince) && lastModified.getTime() <= ifModifiedSince;
+}
@@ -0,0 +1,435 @@
+/**
+ * Synthetic fixture sites for offline, reproducible benchmarks
+ *
+ * Fixture sites are referenced as `fixture://<preset>?<option>=<value>`,
+ * e.g. `fixture://deep-tree?pages=200&latency=20`.
+ * Sites can also serve a robots.txt and a sitemap index (`disallow`,
+ * `crawlDelay`, `sitemap`), e.g. `fixture://static-small?disallow=/page/1,/page/2`.
+ * With `assets`, pages load a stylesheet, a web font and an image, the
+ * subresources browser crawlers can be told to block. `failEvery` makes
+ * pages answer with an error status, always or for their first `failTimes`
+ * requests, to exercise retries. Pages carry an ETag and a Last-Modified
+ * date and answer conditional requests with 304; raising `revision` changes
+ * every fifth page, to exercise incremental recrawls.
+ */
+
+import type { FixtureLinkGraph, FixturePage, FixtureSite, FixtureSiteOptions } from "../types/fixture.types.js";
+
+const FIXTURE_PROTOCOL = "fixture:";
+/** Last-Modified date of unrevised pages */
+const FIXTURE_EPOCH = Date.UTC(2024, 0, 1);
+const REVISED_EVERY = 5;
+
+const BASE_OPTIONS: FixtureSiteOptions = {
+  pages: 20,
+  links: 3,
+  depth: 3,
+  graph: "tree",
+  pageSize: 4096,
+  latency: 0,
+  js: false,
+  structured: false,
+  tracking: false,
+  assets: false,
+  disallow: [],
+  crawlDelay: 0,
+  sitemap: false,
+  seed: 1,
+  failEvery: 0,
+  failStatus: 503,
+  failTimes: 0,
+  revision: 0,
+};
+
+export const FIXTURE_PRESETS: Record<string, Partial<FixtureSiteOptions>> = {
+  "static-small": { pages: 10, links: 3, depth: 2 },
+  "deep-tree": { pages: 100, links: 2, depth: 10 },
+  wide: { pages: 100, links: 25, depth: 2 },
+  chain: { pages: 50, links: 1, depth: 50, graph: "chain" },
+  mesh: { pages: 100, links: 5, depth: 5, graph: "mesh" },
+  "js-rendered": { pages: 20, links: 3, depth: 3, js: true },
+  catalog: { pages: 50, links: 4, depth: 4, structured: true },
+  polite: { pages: 40, links: 3, depth: 3, disallow: ["/page/3"], sitemap: true },
+  "media-heavy": { pages: 20, links: 3, depth: 3, assets: true },
+  flaky: { pages: 20, links: 3, depth: 3, failEvery: 4, failStatus: 503, failTimes: 1 },
+};
+
+/** Approximate sizes in bytes of the subresources of `assets` sites */
+const ASSET_SIZES = { stylesheet: 8192, font: 32768, image: 16384 };
+
+/** URLs per sitemap file of the sitemap index */
+const SITEMAP_SIZE = 25;
+
+const GRAPHS: FixtureLinkGraph[] = ["tree", "chain", "mesh"];
+
+const FILLER =
+  "Lorem ipsum dolor sit amet, consectetur adipiscing elit, sed do eiusmod tempor incididunt ut labore et dolore magna aliqua. ";
+
+/**
+ * Check whether a URL points to a fixture site
+ */
+export function isFixtureUrl(url: string): boolean {
+  return url.startsWith(`${FIXTURE_PROTOCOL}//`);
+}
+
+function parseIntegerOption(name: string, value: string, min: number): number {
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < min) {
+    throw new Error(`Invalid fixture option "${name}=${value}": expected an integer >= ${min}`);
+  }
+  return parsed;
+}
+
+/**
+ * Parse a `fixture://` URL into a site definition
+ */
+export function parseFixtureUrl(url: string): FixtureSite {
+  if (!isFixtureUrl(url)) {
+    throw new Error(`Not a fixture URL: ${url}`);
+  }
+
+  const parsed = new URL(url);
+  const name = parsed.hostname;
+  const preset = FIXTURE_PRESETS[name];
+  if (!preset) {
+    throw new Error(`Unknown fixture site "${name}". Available: ${Object.keys(FIXTURE_PRESETS).join(", ")}`);
+  }
+
+  const options: FixtureSiteOptions = { ...BASE_OPTIONS, ...preset };
+
+  for (const [key, value] of parsed.searchParams) {
+    switch (key) {
+      case "pages":
+        options.pages = parseIntegerOption(key, value, 1);
+        break;
+      case "links":
+        options.links = parseIntegerOption(key, value, 0);
+        break;
+      case "depth":
+        options.depth = parseIntegerOption(key, value, 0);
+        break;
+      case "pageSize":
+        options.pageSize = parseIntegerOption(key, value, 0);
+        break;
+      case "latency":
+        options.latency = parseIntegerOption(key, value, 0);
+        break;
+      case "seed":
+        options.seed = parseIntegerOption(key, value, 0);
+        break;
+      case "js":
+        options.js = value === "" || value === "true" || value === "1";
+        break;
+      case "structured":
+        options.structured = value === "" || value === "true" || value === "1";
+        break;
+      case "tracking":
+        options.tracking = value === "" || value === "true" || value === "1";
+        break;
+      case "assets":
+        options.assets = value === "" || value === "true" || value === "1";
+        break;
+      case "disallow":
+        options.disallow = value.split(",").filter((path) => path !== "");
+        if (options.disallow.some((path) => !path.startsWith("/"))) {
+          throw new Error(`Invalid fixture option "disallow=${value}": expected comma-separated paths starting with "/"`);
+        }
+        break;
+      case "crawlDelay":
+        options.crawlDelay = parseIntegerOption(key, value, 0);
+        break;
+      case "failEvery":
+        options.failEvery = parseIntegerOption(key, value, 0);
+        break;
+      case "failStatus":
+        options.failStatus = parseIntegerOption(key, value, 400);
+        if (options.failStatus > 599) {
+          throw new Error(`Invalid fixture option "failStatus=${value}": expected a 4xx or 5xx status code`);
+        }
+        break;
+      case "failTimes":
+        options.failTimes = parseIntegerOption(key, value, 0);
+        break;
+      case "revision":
+        options.revision = parseIntegerOption(key, value, 0);
+        break;
+      case "sitemap":
+        options.sitemap = value === "" || value === "true" || value === "1";
+        break;
+      case "graph":
+        if (!GRAPHS.includes(value as FixtureLinkGraph)) {
+          throw new Error(`Invalid fixture option "graph=${value}": expected one of ${GRAPHS.join(", ")}`);
+        }
+        options.graph = value as FixtureLinkGraph;
+        break;
+      default:
+        throw new Error(`Unknown fixture option "${key}"`);
+    }
+  }
+
+  return { name, options };
+}
+
+/**
+ * Small seeded PRNG (mulberry32) so mesh graphs are identical across runs
+ */
+function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Generate the pages and link graph of a fixture site
+ *
+ * Pages are created breadth-first from the start page, so page indexes
+ * grow with depth and no page is deeper than `options.depth`.
+ */
+export function generateSite(options: FixtureSiteOptions): FixturePage[] {
+  const fanout = options.graph === "chain" ? 1 : Math.max(options.links, 0);
+  const pages: FixturePage[] = [{ index: 0, depth: 0, links: [] }];
+
+  for (let i = 0; i < pages.length && pages.length < options.pages; i++) {
+    const parent = pages[i];
+    if (parent.depth >= options.depth) {
+      continue;
+    }
+    for (let j = 0; j < fanout && pages.length < options.pages; j++) {
+      const child: FixturePage = { index: pages.length, depth: parent.depth + 1, links: [] };
+      parent.links.push(child.index);
+      pages.push(child);
+    }
+  }
+
+  if (options.graph === "mesh" && pages.length > 1) {
+    const random = createRandom(options.seed);
+    for (const page of pages) {
+      for (let j = 0; j < options.links; j++) {
+        const target = Math.floor(random() * pages.length);
+        if (target !== page.index && !page.links.includes(target)) {
+          page.links.push(target);
+        }
+      }
+    }
+  }
+
+  return pages;
+}
+
+/**
+ * Path of a fixture page relative to the server root
+ */
+export function getPagePath(index: number): string {
+  return index === 0 ? "/" : `/page/${index}`;
+}
+
+function escapeHtml(value: string): string {
+  return value.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+}
+
+function buildFiller(site: FixtureSite, currentLength: number): string {
+  const missing = site.options.pageSize - currentLength;
+  if (missing <= 0) {
+    return "";
+  }
+  return `<p>${FILLER.repeat(Math.ceil(missing / FILLER.length))}</p>`;
+}
+
+/**
+ * Product markup of a structured page: OpenGraph and JSON-LD for the head, a microdata article for the body
+ */
+function renderProduct(page: FixturePage, title: string): { head: string; body: string } {
+  const name = `Product ${page.index}`;
+  const sku = `SKU-${String(page.index).padStart(5, "0")}`;
+  const price = (((page.index * 37) % 9000) + 100) / 100;
+  const path = getPagePath(page.index);
+  const jsonLd = JSON.stringify({
+    "@context": "https://schema.org",
+    "@type": "Product",
+    name,
+    sku,
+    offers: { "@type": "Offer", price: price.toFixed(2), priceCurrency: "EUR" },
+  }).replace(/</g, "\\u003c");
+
+  const head =
+    `<meta property="og:title" content="${escapeHtml(title)}">` +
+    `<meta property="og:type" content="product">` +
+    `<meta property="og:url" content="${path}">` +
+    `<meta property="og:image" content="/images/${page.index}.jpg">` +
+    `<script type="application/ld+json">${jsonLd}</script>`;
+  const body =
+    `<main><article itemscope itemtype="https://schema.org/Product">` +
+    `<h2 itemprop="name">${name}</h2><span class="sku" itemprop="sku">${sku}</span>` +
+    `<div itemprop="offers" itemscope itemtype="https://schema.org/Offer">` +
+    `<meta itemprop="priceCurrency" content="EUR"><span class="price" itemprop="price">${price.toFixed(2)}</span></div>` +
+    `<p itemprop="description">${FILLER.repeat(2).trim()}</p>` +
+    `</article></main>`;
+  return { head, body };
+}
+
+/**
+ * Markup loading the stylesheet (which loads the font) and the page's image
+ */
+function renderAssetTags(site: FixtureSite, page: FixturePage): { head: string; body: string } {
+  if (!site.options.assets) {
+    return { head: "", body: "" };
+  }
+  return {
+    head: '<link rel="stylesheet" href="/assets/style.css">',
+    body: `<img src="/assets/images/${page.index}.svg" alt="Illustration of page ${page.index}" width="320" height="180">`,
+  };
+}
+
+/**
+ * Content followed by a comment that brings it to about `size` characters
+ */
+function padWithComment(content: string, size: number, [open, close]: [string, string]): string {
+  return `${content}${open}${"x".repeat(Math.max(0, size - content.length - open.length - close.length))}${close}`;
+}
+
+/**
+ * Stylesheet, font or page image of an `assets` site, or undefined for any other path
+ */
+export function renderAsset(
+  site: FixtureSite,
+  pages: FixturePage[],
+  path: string,
+): { contentType: string; body: string } | undefined {
+  if (!site.options.assets) {
+    return undefined;
+  }
+  if (path === "/assets/style.css") {
+    const css =
+      '@font-face { font-family: "Fixture"; src: url("/assets/font.woff2") format("woff2"); }\n' +
+      'body { font-family: "Fixture", sans-serif; }\n';
+    return {
+      contentType: "text/css; charset=utf-8",
+      body: padWithComment(css, ASSET_SIZES.stylesheet, ["/* ", " */"]),
+    };
+  }
+  if (path === "/assets/font.woff2") {
+    // Not a valid font; browsers download it all the same
+    return { contentType: "font/woff2", body: "wOF2".padEnd(ASSET_SIZES.font, "\0") };
+  }
+  const match = /^\/assets\/images\/(\d+)\.svg$/.exec(path);
+  const index = match ? parseInt(match[1], 10) : -1;
+  if (index >= 0 && index < pages.length) {
+    const svg =
+      `<svg xmlns="http://www.w3.org/2000/svg" width="320" height="180">` +
+      `<rect width="320" height="180" fill="hsl(${(index * 37) % 360}, 60%, 70%)"/>`;
+    return {
+      contentType: "image/svg+xml",
+      body: `${padWithComment(svg, ASSET_SIZES.image - "</svg>".length, ["<!--", "-->"])}</svg>`,
+    };
+  }
+  return undefined;
+}
+
+/**
+ * Whether `revision` changes the page
+ */
+function isRevised(site: FixtureSite, page: FixturePage): boolean {
+  return site.options.revision > 0 && page.index % REVISED_EVERY === 0;
+}
+
+/**
+ * Last-Modified date of a page: a fixed date, a day later per revision for revised pages
+ */
+export function getLastModified(site: FixtureSite, page: FixturePage): Date {
+  const days = isRevised(site, page) ? site.options.revision : 0;
+  return new Date(FIXTURE_EPOCH + days * 24 * 60 * 60 * 1000);
+}
+
+/**
+ * Render a fixture page as HTML
+ */
+export function renderPage(site: FixtureSite, page: FixturePage): string {
+  const title = `${site.name} - page ${page.index}`;
+  const revision = isRevised(site, page) ? `, revision ${site.options.revision}` : "";
+  const heading = `Page ${page.index} (depth ${page.depth})${revision}`;
+  const assets = renderAssetTags(site, page);
+  const tracking = site.options.tracking ? `?utm_source=fixture&utm_content=page-${page.index}#content` : "";
+  const links = page.links.map((target) => ({ href: `${getPagePath(target)}${tracking}`, text: `Page ${target}` }));
+
+  if (site.options.js) {
+    const data = JSON.stringify({ title, heading, links }).replace(/</g, "\\u003c");
+    const script =
+      `const data = ${data};` +
+      "document.title = data.title;" +
+      'const app = document.getElementById("app");' +
+      'const h1 = document.createElement("h1"); h1.textContent = data.heading; app.appendChild(h1);' +
+      'const nav = document.createElement("nav"); app.appendChild(nav);' +
+      "for (const link of data.links) {" +
+      '  const a = document.createElement("a"); a.href = link.href; a.textContent = link.text; nav.appendChild(a);' +
+      "}";
+    const shell =
+      `<!DOCTYPE html><html><head><meta charset="utf-8"><title>Loading...</title>${assets.head}</head>` +
+      `<body><div id="app"></div>${assets.body}<script>${script}</script>`;
+    return `${shell}${buildFiller(site, shell.length)}</body></html>`;
+  }
+
+  const nav = links.map((link) => `<a href="${escapeHtml(link.href)}">${escapeHtml(link.text)}</a>`).join("\n");
+  const product = site.options.structured ? renderProduct(page, title) : { head: "", body: "" };
+  const head =
+    `<!DOCTYPE html><html><head><meta charset="utf-8"><title>${escapeHtml(title)}</title>${product.head}${assets.head}</head>` +
+    `<body><h1>${escapeHtml(heading)}</h1><nav>\n${nav}\n</nav>${assets.body}${product.body}`;
+  return `${head}${buildFiller(site, head.length)}</body></html>`;
+}
+
+/**
+ * robots.txt of a site, or undefined when it has no rules and no sitemap (served as 404)
+ */
+export function renderRobotsTxt(site: FixtureSite, baseUrl: string): string | undefined {
+  const { disallow, crawlDelay, sitemap } = site.options;
+  if (disallow.length === 0 && crawlDelay === 0 && !sitemap) {
+    return undefined;
+  }
+
+  const lines = ["User-agent: *", ...disallow.map((path) => `Disallow: ${path}`)];
+  if (crawlDelay > 0) {
+    lines.push(`Crawl-delay: ${crawlDelay}`);
+  }
+  if (sitemap) {
+    lines.push("", `Sitemap: ${new URL("/sitemap.xml", baseUrl).href}`);
+  }
+  return `${lines.join("\n")}\n`;
+}
+
+/**
+ * Number of sitemap files in the sitemap index
+ */
+export function getSitemapCount(pages: FixturePage[]): number {
+  return Math.ceil(pages.length / SITEMAP_SIZE);
+}
+
+/**
+ * Sitemap index referencing `/sitemaps/<n>.xml`
+ */
+export function renderSitemapIndex(pages: FixturePage[], baseUrl: string): string {
+  const entries = Array.from(
+    { length: getSitemapCount(pages) },
+    (_, index) => `<sitemap><loc>${new URL(`/sitemaps/${index}.xml`, baseUrl).href}</loc></sitemap>`,
+  );
+  return (
+    `<?xml version="1.0" encoding="UTF-8"?>\n` +
+    `<sitemapindex xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">\n${entries.join("\n")}\n</sitemapindex>\n`
+  );
+}
+
+/**
+ * Sitemap file `index` of the sitemap index, listing up to SITEMAP_SIZE pages
+ */
+export function renderSitemap(pages: FixturePage[], index: number, baseUrl: string): string {
+  const entries = pages
+    .slice(index * SITEMAP_SIZE, (index + 1) * SITEMAP_SIZE)
+    .map((page) => `<url><loc>${new URL(getPagePath(page.index), baseUrl).href}</loc></url>`);
+  return (
+    `<?xml version="1.0" encoding="UTF-8"?>\n` +
+    `<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">\n${entries.join("\n")}\n</urlset>\n`
+  );
+}
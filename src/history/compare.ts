@@ -0,0 +1,151 @@
+/**
+ * Regression detection between stored benchmark reports
+ */
+
+import type { BenchmarkResult } from "../types/benchmark.types.js";
+import type {
+  ComparedMetric,
+  CrawlerDelta,
+  HistoryComparison,
+  MetricDelta,
+  RegressionThresholds,
+  StoredReportRef,
+} from "../types/history.types.js";
+import { mean, welchTTest } from "../benchmark/statistics.js";
+import { pagesPerSecond } from "../benchmark/reporter.js";
+import { scenarioKey, type LoadedReport } from "./store.js";
+
+export const DEFAULT_THRESHOLDS: RegressionThresholds = {
+  duration: 10,
+  memoryUsed: 20,
+  pagesPerSecond: 10,
+  pagesFailed: 0,
+  requireSignificance: false,
+};
+
+/**
+ * Default thresholds, overridden by the COMPARE_* environment variables
+ */
+export function thresholdsFromEnv(env: NodeJS.ProcessEnv = process.env): RegressionThresholds {
+  const read = (name: string, fallback: number) => (env[name] ? parseFloat(env[name]!) : fallback);
+  return {
+    duration: read("COMPARE_DURATION_THRESHOLD", DEFAULT_THRESHOLDS.duration),
+    memoryUsed: read("COMPARE_MEMORY_THRESHOLD", DEFAULT_THRESHOLDS.memoryUsed),
+    pagesPerSecond: read("COMPARE_THROUGHPUT_THRESHOLD", DEFAULT_THRESHOLDS.pagesPerSecond),
+    pagesFailed: read("COMPARE_FAILURE_THRESHOLD", DEFAULT_THRESHOLDS.pagesFailed),
+    requireSignificance: DEFAULT_THRESHOLDS.requireSignificance,
+  };
+}
+
+// Per-iteration value of each metric; pagesFailed is compared on its mean only
+const METRICS: [ComparedMetric, (result: BenchmarkResult) => number][] = [
+  ["duration", (result) => result.metrics.duration],
+  ["memoryUsed", (result) => result.metrics.memoryUsed || 0],
+  ["pagesPerSecond", pagesPerSecond],
+  ["pagesFailed", (result) => result.metrics.pagesFailed],
+];
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function measuredResults(loaded: LoadedReport, crawlerType: string): BenchmarkResult[] {
+  return loaded.report.results.filter((r) => r.crawlerType === crawlerType && !r.warmup);
+}
+
+function reportRef(loaded: LoadedReport): StoredReportRef {
+  return { path: loaded.path, timestamp: loaded.report.timestamp, environment: loaded.report.environment };
+}
+
+function isRegression(metric: ComparedMetric, delta: Omit<MetricDelta, "regression">, thresholds: RegressionThresholds) {
+  if (metric === "pagesFailed") {
+    return delta.change > thresholds.pagesFailed;
+  }
+  if (delta.changePercent === null) {
+    return false;
+  }
+  if (thresholds.requireSignificance && delta.significance && !delta.significance.significant) {
+    return false;
+  }
+  return metric === "pagesPerSecond"
+    ? delta.changePercent < -thresholds.pagesPerSecond
+    : delta.changePercent > thresholds[metric];
+}
+
+function compareMetric(
+  metric: ComparedMetric,
+  pick: (result: BenchmarkResult) => number,
+  baseline: BenchmarkResult[],
+  candidate: BenchmarkResult[],
+  thresholds: RegressionThresholds,
+): MetricDelta {
+  const baselineValues = baseline.map(pick);
+  const candidateValues = candidate.map(pick);
+  const baselineMean = mean(baselineValues);
+  const candidateMean = mean(candidateValues);
+  const change = candidateMean - baselineMean;
+
+  const delta = {
+    metric,
+    baseline: round(baselineMean),
+    candidate: round(candidateMean),
+    change: round(change),
+    changePercent: baselineMean === 0 ? null : round((change / baselineMean) * 100),
+    significance: metric === "pagesFailed" ? null : welchTTest(candidateValues, baselineValues),
+  };
+  return { ...delta, regression: isRegression(metric, delta, thresholds) };
+}
+
+/**
+ * Compare every crawler of every candidate report with the newest baseline
+ * report that ran the same scenario with the same crawler
+ */
+export function compareReports(
+  baselines: LoadedReport[],
+  candidates: LoadedReport[],
+  thresholds: RegressionThresholds = DEFAULT_THRESHOLDS,
+): HistoryComparison {
+  const newestFirst = [...baselines].sort((a, b) => b.report.timestamp.localeCompare(a.report.timestamp));
+  const deltas: CrawlerDelta[] = [];
+  const unmatched: string[] = [];
+
+  for (const candidate of candidates) {
+    const scenario = scenarioKey(candidate.report.config);
+    const crawlerTypes = [...new Set(candidate.report.results.filter((r) => !r.warmup).map((r) => r.crawlerType))];
+
+    for (const crawlerType of crawlerTypes) {
+      const baseline = newestFirst.find(
+        (loaded) =>
+          loaded !== candidate &&
+          scenarioKey(loaded.report.config) === scenario &&
+          measuredResults(loaded, crawlerType).length > 0,
+      );
+      if (!baseline) {
+        unmatched.push(`${scenario} / ${crawlerType}`);
+        continue;
+      }
+
+      const baselineResults = measuredResults(baseline, crawlerType);
+      const candidateResults = measuredResults(candidate, crawlerType);
+      const metrics = METRICS.map(([metric, pick]) =>
+        compareMetric(metric, pick, baselineResults, candidateResults, thresholds),
+      );
+
+      deltas.push({
+        scenario,
+        crawlerType,
+        baseline: reportRef(baseline),
+        candidate: reportRef(candidate),
+        metrics,
+        regression: metrics.some((m) => m.regression),
+      });
+    }
+  }
+
+  return {
+    thresholds,
+    deltas,
+    unmatched,
+    regressions: deltas.filter((d) => d.regression).length,
+  };
+}
@@ -0,0 +1,72 @@
+/**
+ * Access to the benchmark reports stored in the results directory
+ *
+ * Every run writes `benchmark-<timestamp>.json`, or one
+ * `benchmark-<timestamp>-<scenario>.json` per scenario when it covered several;
+ * the directory itself is the history, ordered by the timestamp in the file name.
+ */
+
+import { existsSync, readdirSync, readFileSync } from "fs";
+import { basename, join } from "path";
+import type { BenchmarkConfig, BenchmarkReport } from "../types/benchmark.types.js";
+
+const REPORT_FILE_PATTERN = /^benchmark-.+\.json$/;
+const RUN_TIMESTAMP_PATTERN = /^benchmark-(\d{4}-\d{2}-\d{2}T\d{2}-\d{2}-\d{2}-\d{3}Z)/;
+
+export interface LoadedReport {
+  path: string;
+  report: BenchmarkReport;
+}
+
+/**
+ * Paths of all stored reports, oldest first
+ */
+export function listReports(dir: string): string[] {
+  if (!existsSync(dir)) {
+    return [];
+  }
+  return readdirSync(dir)
+    .filter((file) => REPORT_FILE_PATTERN.test(file))
+    .sort()
+    .map((file) => join(dir, file));
+}
+
+/**
+ * Read and sanity-check a stored report
+ */
+export function loadReport(path: string): LoadedReport {
+  let report: BenchmarkReport;
+  try {
+    report = JSON.parse(readFileSync(path, "utf8")) as BenchmarkReport;
+  } catch (error) {
+    throw new Error(`Cannot read report ${path}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+  if (!report || typeof report.timestamp !== "string" || !report.config || !Array.isArray(report.results)) {
+    throw new Error(`${path} is not a benchmark report`);
+  }
+  return { path, report };
+}
+
+/**
+ * Run a report file belongs to: the timestamp shared by all scenario reports of one invocation
+ */
+export function runKey(path: string): string {
+  const file = basename(path);
+  return file.match(RUN_TIMESTAMP_PATTERN)?.[1] ?? file;
+}
+
+/**
+ * The reports of the most recent runs, oldest first
+ */
+export function latestReports(dir: string, count: number): LoadedReport[] {
+  const paths = listReports(dir);
+  const runs = new Set([...new Set(paths.map(runKey))].slice(-count));
+  return paths.filter((path) => runs.has(runKey(path))).map(loadReport);
+}
+
+/**
+ * Key that identifies comparable runs: the scenario name, or mode and URL
+ */
+export function scenarioKey(config: BenchmarkConfig): string {
+  return config.scenario || `${config.mode || "crawl"} ${config.url}`;
+}
@@ -0,0 +1,76 @@
+/**
+ * Plain HTTP crawler implementation using Crawlee
+ * No HTML parser at all: title and links are read with regular expressions,
+ * which makes it the lower bound for the parsing cost of the other backends
+ */
+
+import { HttpCrawler, type Configuration, type HttpCrawlingContext } from "crawlee";
+import { BaseCrawlerImpl, type CrawlerSetup, type PageContent } from "../crawlers/base-crawler.js";
+import { getHttpResponseMetadata } from "../crawlers/response-metadata.js";
+import { markNavigationEnd, markNavigationStart } from "../timing/page-timer.js";
+
+const TITLE_PATTERN = /<title[^>]*>([\s\S]*?)<\/title>/i;
+const HREF_PATTERN = /<a\s[^>]*?href\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s>]+))/gi;
+const ENTITY_PATTERN = /&(amp|quot|apos|lt|gt|#\d+|#x[\da-f]+);/gi;
+const NAMED_ENTITIES: Record<string, string> = { amp: "&", quot: '"', apos: "'", lt: "<", gt: ">" };
+
+/**
+ * Decode the character references that commonly appear in attribute values (e.g. `&amp;` in query strings)
+ */
+function decodeEntities(value: string): string {
+  return value.replace(ENTITY_PATTERN, (entity, name: string) => {
+    const lower = name.toLowerCase();
+    if (lower.startsWith("#x")) return String.fromCodePoint(parseInt(lower.slice(2), 16));
+    if (lower.startsWith("#")) return String.fromCodePoint(parseInt(lower.slice(1), 10));
+    return NAMED_ENTITIES[lower] ?? entity;
+  });
+}
+
+/**
+ * Resolve the href of every anchor against the page URL, skipping invalid ones
+ */
+function extractLinks(html: string, baseUrl: string): string[] {
+  const links = new Set<string>();
+  for (const match of html.matchAll(HREF_PATTERN)) {
+    const href = decodeEntities(match[1] ?? match[2] ?? match[3]);
+    try {
+      links.add(new URL(href, baseUrl).href);
+    } catch {
+      continue;
+    }
+  }
+  return [...links];
+}
+
+/**
+ * HTTP crawler implementation
+ */
+export class HttpCrawlerImpl extends BaseCrawlerImpl<HttpCrawlingContext> {
+  protected readonly name = "http";
+  protected readonly defaultMaxConcurrency = parseInt(process.env.CRAWLER_MAX_CONCURRENCY_HTTP || "10", 10);
+  protected readonly supportsConditionalRequests = true;
+
+  protected createCrawler(
+    setup: CrawlerSetup<HttpCrawlingContext>,
+    config: Configuration,
+  ): HttpCrawler<HttpCrawlingContext> {
+    return new HttpCrawler<HttpCrawlingContext>(
+      {
+        ...setup,
+        preNavigationHooks: [...setup.preNavigationHooks, markNavigationStart],
+        postNavigationHooks: [...(setup.postNavigationHooks || []), markNavigationEnd],
+      },
+      config,
+    );
+  }
+
+  protected async extractPage({ request, response, body }: HttpCrawlingContext): Promise<PageContent> {
+    const html = body.toString();
+    return {
+      title: TITLE_PATTERN.exec(html)?.[1].trim() || "",
+      htmlContent: html,
+      metadata: getHttpResponseMetadata(request, response, Buffer.byteLength(body)),
+      links: extractLinks(html, request.loadedUrl || request.url),
+    };
+  }
+}
@@ -3,8 +3,77 @@
  * This file can be used to run benchmarks programmatically
  */
 
-export { PlaywrightCrawlerImpl } from "./playwright/crawler.js";
+export { PlaywrightCrawlerImpl, OPTIMIZED_PAGE_LOAD } from "./playwright/crawler.js";
+export { createPageLoadHooks, getPageTraffic, WAIT_UNTIL_EVENTS } from "./playwright/page-load.js";
+export {
+  registerLaunchProfile,
+  getLaunchProfile,
+  getLaunchProfileNames,
+  resolveBrowserOptions,
+  mergeLaunchArgs,
+  parseViewport,
+  BROWSER_ENGINES,
+  type ResolvedBrowserOptions,
+} from "./playwright/launch-profiles.js";
 export { CheerioCrawlerImpl } from "./cheerio/crawler.js";
+export { HttpCrawlerImpl } from "./http/crawler.js";
+export { JSDOMCrawlerImpl } from "./jsdom/crawler.js";
+export { LinkeDOMCrawlerImpl } from "./linkedom/crawler.js";
+export { AdaptivePlaywrightCrawlerImpl } from "./adaptive/crawler.js";
+export { BaseCrawlerImpl } from "./crawlers/base-crawler.js";
+export { ResultStream, type ResultSink, type StreamedRun } from "./crawlers/result-stream.js";
+export { registerCrawler, createCrawler, getCrawlerNames, type CrawlerFactory } from "./crawlers/registry.js";
+export { FixtureServer } from "./fixtures/server.js";
+export { LocalProxy, isLocalProxyUrl, type LocalProxyStats } from "./fixtures/proxy.js";
+export {
+  createProxyConfiguration,
+  createSessionPoolOptions,
+  parseProxyUrl,
+  parseProxyTier,
+  redactProxyUrl,
+  redactProxyOptions,
+  DIRECT_CONNECTION,
+} from "./crawlers/proxies.js";
+export { IncrementalCrawl, hashContent, parseNotModifiedAsHtml } from "./crawlers/incremental.js";
+export { classifyError, createBackoffHook, createStatusError, ClassifiedError, ERROR_CLASSES } from "./crawlers/retries.js";
+export {
+  fetchRobotsInfo,
+  parseCrawlDelay,
+  discoverSitemapUrls,
+  applyCrawlDelay,
+  type RobotsInfo,
+} from "./crawlers/robots.js";
+export {
+  getEnqueueRules,
+  filterSeedUrls,
+  createUrlNormalizer,
+  parseUrlPattern,
+  expandParamNames,
+  LINK_STRATEGIES,
+  TRACKING_PARAMS,
+} from "./crawlers/link-rules.js";
 export * from "./types/benchmark.types.js";
 export * from "./types/crawler.types.js";
+export * from "./types/fixture.types.js";
+export * from "./types/history.types.js";
+export * from "./types/scenario.types.js";
+export * from "./types/extractor.types.js";
+export { compareReports, DEFAULT_THRESHOLDS, thresholdsFromEnv } from "./history/compare.js";
+export { generateHtmlReport, generateHistoryHtml } from "./benchmark/html-report.js";
+export { generateReport, type FormatContext, type ReportFormatter } from "./benchmark/reporter.js";
+export {
+  compareOutputs,
+  normalizeUrl,
+  similarityThresholdFromEnv,
+  DEFAULT_SIMILARITY_THRESHOLD,
+} from "./benchmark/parity.js";
+export { registerFormatter, getFormatter, getFormatterNames } from "./benchmark/formatters/index.js";
+export { listReports, loadReport, latestReports, runKey, type LoadedReport } from "./history/store.js";
+export { loadScenarioFile, loadScenarios, selectScenarios } from "./scenarios/loader.js";
+export { validateScenarioFile } from "./scenarios/schema.js";
+export { registerExtractor, getExtractor, getExtractorNames, extractPageData } from "./extractors/registry.js";
+export { createCssExtractor, loadCssRules, checkCssRules, type CssRuleError } from "./extractors/css.js";
+export { jsonLdExtractor, microdataExtractor, openGraphExtractor } from "./extractors/structured-data.js";
+export { readableTextExtractor } from "./extractors/readable-text.js";
+export { linksExtractor, extractLinks } from "./extractors/links.js";
 
@@ -0,0 +1,37 @@
+/**
+ * JSDOM-based crawler implementation using Crawlee
+ * Full DOM implementation without a browser; inline scripts are not run
+ */
+
+import { JSDOMCrawler, type Configuration, type JSDOMCrawlingContext } from "crawlee";
+import { BaseCrawlerImpl, type CrawlerSetup, type PageContent } from "../crawlers/base-crawler.js";
+import { getHttpResponseMetadata } from "../crawlers/response-metadata.js";
+import { markNavigationEnd, markNavigationStart } from "../timing/page-timer.js";
+
+/**
+ * JSDOM crawler implementation
+ */
+export class JSDOMCrawlerImpl extends BaseCrawlerImpl<JSDOMCrawlingContext> {
+  protected readonly name = "jsdom";
+  protected readonly defaultMaxConcurrency = parseInt(process.env.CRAWLER_MAX_CONCURRENCY_JSDOM || "10", 10);
+  protected readonly supportsConditionalRequests = true;
+
+  protected createCrawler(setup: CrawlerSetup<JSDOMCrawlingContext>, config: Configuration): JSDOMCrawler {
+    return new JSDOMCrawler(
+      {
+        ...setup,
+        preNavigationHooks: [...setup.preNavigationHooks, markNavigationStart],
+        postNavigationHooks: [...(setup.postNavigationHooks || []), markNavigationEnd],
+      },
+      config,
+    );
+  }
+
+  protected async extractPage({ request, response, body, document }: JSDOMCrawlingContext): Promise<PageContent> {
+    return {
+      title: document.title || "",
+      htmlContent: document.documentElement.outerHTML,
+      metadata: getHttpResponseMetadata(request, response, Buffer.byteLength(body)),
+    };
+  }
+}
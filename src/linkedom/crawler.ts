@@ -0,0 +1,36 @@
+/**
+ * LinkeDOM-based crawler implementation using Crawlee
+ * Lighter DOM implementation than JSDOM, with the same DOM API
+ */
+
+import { LinkeDOMCrawler, type Configuration, type LinkeDOMCrawlingContext } from "crawlee";
+import { BaseCrawlerImpl, type CrawlerSetup, type PageContent } from "../crawlers/base-crawler.js";
+import { getHttpResponseMetadata } from "../crawlers/response-metadata.js";
+import { markNavigationEnd, markNavigationStart } from "../timing/page-timer.js";
+
+/**
+ * LinkeDOM crawler implementation
+ */
+export class LinkeDOMCrawlerImpl extends BaseCrawlerImpl<LinkeDOMCrawlingContext> {
+  protected readonly name = "linkedom";
+  protected readonly defaultMaxConcurrency = parseInt(process.env.CRAWLER_MAX_CONCURRENCY_LINKEDOM || "10", 10);
+
+  protected createCrawler(setup: CrawlerSetup<LinkeDOMCrawlingContext>, config: Configuration): LinkeDOMCrawler {
+    return new LinkeDOMCrawler(
+      {
+        ...setup,
+        preNavigationHooks: [...setup.preNavigationHooks, markNavigationStart],
+        postNavigationHooks: [...(setup.postNavigationHooks || []), markNavigationEnd],
+      },
+      config,
+    );
+  }
+
+  protected async extractPage({ request, response, body, document }: LinkeDOMCrawlingContext): Promise<PageContent> {
+    return {
+      title: document.title || "",
+      htmlContent: document.documentElement.outerHTML,
+      metadata: getHttpResponseMetadata(request, response, Buffer.byteLength(body)),
+    };
+  }
+}
@@ -0,0 +1,79 @@
+/**
+ * Browser launch and page loading shared by the Playwright-based crawlers
+ *
+ * Both the Playwright and the adaptive crawler launch their browsers from
+ * the run's engine, launch profile, viewport, user agent and locale, and
+ * load pages with its `pageLoad` options.
+ */
+
+import type { PlaywrightHook, PlaywrightLaunchContext } from "crawlee";
+import { chromium, firefox, webkit, type BrowserType, type Page } from "playwright";
+import type { BrowserEngine, CrawlerOptions, PageLoadOptions } from "../types/crawler.types.js";
+import { createPageLoadHooks } from "./page-load.js";
+import { getLaunchProfile, mergeLaunchArgs, resolveBrowserOptions, type ResolvedBrowserOptions } from "./launch-profiles.js";
+
+const LAUNCHERS: Record<BrowserEngine, BrowserType> = { chromium, firefox, webkit };
+
+/**
+ * Launch settings and page loading hooks of a run
+ */
+export interface BrowserSetup {
+  launchContext: PlaywrightLaunchContext;
+  browserPoolOptions?: { useFingerprints: false };
+  preNavigationHooks: PlaywrightHook[];
+  postNavigationHooks: PlaywrightHook[];
+}
+
+/**
+ * Launch context of the engine and profile; viewport, user agent and locale turn off Crawlee's
+ * fingerprint injection, which would otherwise replace them
+ */
+function getLaunchContext(browser: ResolvedBrowserOptions): PlaywrightLaunchContext {
+  const profile = getLaunchProfile(browser.launchProfile);
+
+  return {
+    launcher: LAUNCHERS[browser.engine],
+    launchOptions: {
+      headless: browser.headless,
+      ...(browser.executablePath ? { executablePath: browser.executablePath } : {}),
+      ...(profile.chromiumSandbox ? { chromiumSandbox: true } : {}),
+      args: mergeLaunchArgs(profile.args[browser.engine] || [], browser.launchArgs),
+      ...(browser.viewport ? { viewport: browser.viewport } : {}),
+      ...(browser.locale ? { locale: browser.locale } : {}),
+    },
+    ...(browser.userAgent ? { userAgent: browser.userAgent } : {}),
+  };
+}
+
+/**
+ * Launch settings from the run's `browser` options and page loading hooks from its `pageLoad` options
+ * @param pageLoadDefaults Page loading of a crawler variant; `pageLoad` overrides them per setting
+ * @param timeout Milliseconds to wait for `waitForSelector`
+ */
+export function createBrowserSetup(
+  options: CrawlerOptions,
+  pageLoadDefaults: PageLoadOptions,
+  timeout: number,
+): BrowserSetup {
+  const browser = resolveBrowserOptions(options.browser);
+  const pageLoad = createPageLoadHooks({ ...pageLoadDefaults, ...options.pageLoad }, timeout);
+  return {
+    launchContext: getLaunchContext(browser),
+    ...(browser.viewport || browser.userAgent || browser.locale
+      ? { browserPoolOptions: { useFingerprints: false } }
+      : {}),
+    ...pageLoad,
+  };
+}
+
+/**
+ * The page of a hook or handler context, or undefined when the adaptive crawler renders over plain HTTP
+ * There `page` throws, which would make the crawler retry the request in a browser.
+ */
+export function getContextPage(context: object): Page | undefined {
+  try {
+    return (context as { page?: Page }).page;
+  } catch {
+    return undefined;
+  }
+}
@@ -0,0 +1,178 @@
+/**
+ * Browser launch profiles
+ *
+ * A profile is a named set of launch arguments per engine, selected with
+ * `--launch-profile` or PLAYWRIGHT_LAUNCH_PROFILE. Arguments given with
+ * `--launch-args` are added on top and replace profile arguments of the same
+ * name. More profiles can be registered from a module passed to `--require`.
+ */
+
+import { existsSync } from "fs";
+import type { BrowserEngine, BrowserOptions, LaunchProfile } from "../types/crawler.types.js";
+
+export const BROWSER_ENGINES: BrowserEngine[] = ["chromium", "firefox", "webkit"];
+
+/** Browser options with the environment defaults filled in */
+export type ResolvedBrowserOptions = BrowserOptions & Required<Pick<BrowserOptions, "engine" | "launchProfile" | "headless">>;
+
+const registry = new Map<string, LaunchProfile>();
+
+/**
+ * Register a launch profile under its name, replacing any existing one
+ */
+export function registerLaunchProfile(profile: LaunchProfile): void {
+  registry.set(profile.name, profile);
+}
+
+/**
+ * Look up a registered launch profile
+ */
+export function getLaunchProfile(name: string): LaunchProfile {
+  const profile = registry.get(name);
+  if (!profile) {
+    throw new Error(`Unknown launch profile "${name}". Available: ${getLaunchProfileNames().join(", ")}`);
+  }
+  return profile;
+}
+
+/**
+ * Names of all registered launch profiles, in registration order
+ */
+export function getLaunchProfileNames(): string[] {
+  return [...registry.keys()];
+}
+
+/**
+ * Fill in the engine, profile, executable and headless mode from the environment, checking engine, profile and executable
+ * Without an executable, Playwright launches its own browser; a system browser is never picked up by itself.
+ */
+export function resolveBrowserOptions(browser: BrowserOptions = {}): ResolvedBrowserOptions {
+  const engine = browser.engine ?? ((process.env.PLAYWRIGHT_BROWSER || "chromium") as BrowserEngine);
+  if (!BROWSER_ENGINES.includes(engine)) {
+    throw new Error(`Invalid browser "${engine}". Use one of: ${BROWSER_ENGINES.join(", ")}`);
+  }
+  const launchProfile = browser.launchProfile ?? (process.env.PLAYWRIGHT_LAUNCH_PROFILE || "default");
+  getLaunchProfile(launchProfile);
+  const executablePath =
+    browser.executablePath ?? (engine === "chromium" ? process.env.PLAYWRIGHT_CHROMIUM_EXECUTABLE_PATH || undefined : undefined);
+  if (executablePath !== undefined && !existsSync(executablePath)) {
+    throw new Error(`Browser executable "${executablePath}" not found`);
+  }
+
+  return {
+    ...browser,
+    engine,
+    launchProfile,
+    ...(executablePath !== undefined ? { executablePath } : {}),
+    headless: browser.headless ?? process.env.PLAYWRIGHT_HEADLESS !== "false",
+  };
+}
+
+/**
+ * Parse a viewport written as WIDTHxHEIGHT, e.g. "1280x720"
+ */
+export function parseViewport(value: string): { width: number; height: number } {
+  const match = /^(\d+)x(\d+)$/.exec(value.trim());
+  const width = match ? parseInt(match[1], 10) : 0;
+  const height = match ? parseInt(match[2], 10) : 0;
+  if (width < 1 || height < 1) {
+    throw new Error(`Invalid viewport "${value}". Use WIDTHxHEIGHT, e.g. 1280x720.`);
+  }
+  return { width, height };
+}
+
+function argumentName(arg: string): string {
+  return arg.split("=")[0];
+}
+
+/**
+ * Profile arguments followed by the extra ones; an extra argument replaces the profile's argument of the same name
+ */
+export function mergeLaunchArgs(profileArgs: string[], extraArgs: string[] = []): string[] {
+  const replaced = new Set(extraArgs.map(argumentName));
+  return [...profileArgs.filter((arg) => !replaced.has(argumentName(arg))), ...extraArgs];
+}
+
+registerLaunchProfile({
+  name: "default",
+  description: "The Chromium flags every run used before profiles existed (single process, web security off), for comparable results",
+  args: {
+    chromium: [
+      "--no-sandbox",
+      "--disable-setuid-sandbox",
+      "--disable-dev-shm-usage",
+      "--disable-gpu",
+      "--disable-web-security",
+      "--disable-accelerated-2d-canvas",
+      "--no-first-run",
+      "--no-zygote",
+      "--disable-features=VizDisplayCompositor",
+      "--disable-background-timer-throttling",
+      "--disable-backgrounding-occluded-windows",
+      "--disable-renderer-backgrounding",
+      "--disable-field-trial-config",
+      "--disable-ipc-flooding-protection",
+      "--single-process",
+      "--disable-extensions",
+      "--disable-plugins",
+      "--disable-default-apps",
+      "--disable-sync",
+      "--disable-translate",
+      "--hide-scrollbars",
+      "--mute-audio",
+      "--no-default-browser-check",
+      "--disable-logging",
+      "--disable-gpu-logging",
+      "--silent",
+      "--disable-background-networking",
+      "--disable-client-side-phishing-detection",
+      "--disable-component-extensions-with-background-pages",
+      "--disable-component-update",
+      "--disable-domain-reliability",
+      "--disable-features=TranslateUI",
+      "--disable-hang-monitor",
+      "--disable-popup-blocking",
+      "--disable-prompt-on-repost",
+      "--disable-sync-preferences",
+      "--metrics-recording-only",
+      "--safebrowsing-disable-auto-update",
+      "--enable-automation",
+      "--password-store=basic",
+      "--use-mock-keychain",
+      "--disable-software-rasterizer",
+      "--force-color-profile=srgb",
+      "--disable-features=BlinkGenPropertyTrees",
+    ],
+  },
+});
+
+registerLaunchProfile({
+  name: "minimal",
+  description: "Playwright's own defaults, no extra arguments",
+  args: {},
+});
+
+registerLaunchProfile({
+  name: "docker",
+  description: "What Chromium needs in a container: no /dev/shm, no GPU (Playwright already disables the sandbox)",
+  args: {
+    chromium: ["--disable-dev-shm-usage", "--disable-gpu"],
+  },
+});
+
+registerLaunchProfile({
+  name: "hardened",
+  description: "Chromium sandbox and web security on, background services off",
+  args: {
+    chromium: [
+      "--no-first-run",
+      "--disable-extensions",
+      "--disable-background-networking",
+      "--disable-component-update",
+      "--disable-default-apps",
+      "--disable-domain-reliability",
+      "--disable-sync",
+    ],
+  },
+  chromiumSandbox: true,
+});
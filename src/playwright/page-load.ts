@@ -0,0 +1,107 @@
+/**
+ * Page loading for the Playwright crawler: resource blocking, wait
+ * conditions and traffic accounting
+ *
+ * Blocking uses request interception (`page.route`). Aborted requests are
+ * never transferred, so their size is unknown; bytes saved show up as the
+ * difference in transferred bytes against a run without blocking.
+ */
+
+import type { PlaywrightHook } from "crawlee";
+import type { Page, Request, Route } from "playwright";
+import type { PageLoadOptions, PageTraffic, WaitUntil } from "../types/crawler.types.js";
+import { parseUrlPattern } from "../crawlers/link-rules.js";
+
+export const WAIT_UNTIL_EVENTS: WaitUntil[] = ["domcontentloaded", "load", "networkidle"];
+
+interface TrafficRecorder {
+  traffic: PageTraffic;
+  /** Size lookups of finished requests */
+  pending: Promise<void>[];
+}
+
+const recorders = new WeakMap<Page, TrafficRecorder>();
+
+function recordTraffic(page: Page): TrafficRecorder {
+  const recorder: TrafficRecorder = {
+    traffic: { requests: 0, bytes: 0, blocked: 0, blockedByType: {} },
+    pending: [],
+  };
+  page.on("requestfinished", (request) => {
+    const sizes = request.sizes().then(
+      ({ responseHeadersSize, responseBodySize }) => {
+        recorder.traffic.requests++;
+        recorder.traffic.bytes += Math.max(0, responseHeadersSize) + Math.max(0, responseBodySize);
+      },
+      () => undefined,
+    );
+    recorder.pending.push(sizes);
+  });
+  recorders.set(page, recorder);
+  return recorder;
+}
+
+/**
+ * The page's own document must load, whatever the rules say
+ */
+function isPageDocument(request: Request): boolean {
+  return request.isNavigationRequest() && request.frame().parentFrame() === null;
+}
+
+async function block(recorder: TrafficRecorder, route: Route): Promise<void> {
+  const type = route.request().resourceType();
+  recorder.traffic.blocked++;
+  recorder.traffic.blockedByType[type] = (recorder.traffic.blockedByType[type] || 0) + 1;
+  await route.abort("blockedbyclient");
+}
+
+/**
+ * Navigation hooks applying the options; traffic is recorded even without blocking
+ */
+export function createPageLoadHooks(
+  options: PageLoadOptions,
+  timeout: number,
+): { preNavigationHooks: PlaywrightHook[]; postNavigationHooks: PlaywrightHook[] } {
+  const types = new Set(options.blockResources || []);
+  const urlPatterns = (options.blockUrls || []).map(parseUrlPattern);
+
+  const preNavigationHook: PlaywrightHook = async ({ page }, gotoOptions) => {
+    const recorder = recordTraffic(page);
+    if (types.size > 0) {
+      await page.route("**/*", (route) =>
+        types.has(route.request().resourceType()) && !isPageDocument(route.request())
+          ? block(recorder, route)
+          : route.fallback(),
+      );
+    }
+    // Routes registered later are matched first
+    for (const pattern of urlPatterns) {
+      await page.route(pattern, (route) => (isPageDocument(route.request()) ? route.fallback() : block(recorder, route)));
+    }
+    if (options.waitUntil && gotoOptions) {
+      gotoOptions.waitUntil = options.waitUntil;
+    }
+  };
+
+  const postNavigationHooks: PlaywrightHook[] = options.waitForSelector
+    ? [
+        async ({ page }) => {
+          await page.waitForSelector(options.waitForSelector!, { timeout });
+        },
+      ]
+    : [];
+
+  return { preNavigationHooks: [preNavigationHook], postNavigationHooks };
+}
+
+/**
+ * Traffic recorded for a page so far
+ */
+export async function getPageTraffic(page: Page): Promise<PageTraffic | undefined> {
+  const recorder = recorders.get(page);
+  if (!recorder) {
+    return undefined;
+  }
+  await Promise.all(recorder.pending);
+  return { ...recorder.traffic, blockedByType: { ...recorder.traffic.blockedByType } };
+}
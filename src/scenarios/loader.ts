@@ -0,0 +1,87 @@
+/**
+ * Scenario loading from a directory of YAML and JSON files
+ *
+ * A file holds one scenario, a list of scenarios, or `{ scenarios: [...] }`.
+ * Files are read in name order and scenario names must be unique across them.
+ */
+
+import { existsSync, readdirSync, readFileSync } from "fs";
+import { dirname, extname, join, resolve } from "path";
+import { parse as parseYaml } from "yaml";
+import type { TestScenario } from "../types/scenario.types.js";
+import { validateScenarioFile } from "./schema.js";
+
+const SCENARIO_EXTENSIONS = new Set([".yaml", ".yml", ".json"]);
+
+function parseFile(path: string): unknown {
+  const content = readFileSync(path, "utf8");
+  try {
+    return extname(path) === ".json" ? JSON.parse(content) : parseYaml(content);
+  } catch (error) {
+    throw new Error(`Cannot parse scenario file ${path}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+/**
+ * Load and validate a single scenario file
+ * `urlsFile` entries are resolved relative to the file.
+ */
+export function loadScenarioFile(path: string): TestScenario[] {
+  return validateScenarioFile(parseFile(path), path).map((scenario) =>
+    scenario.urlsFile ? { ...scenario, urlsFile: resolve(dirname(path), scenario.urlsFile) } : scenario,
+  );
+}
+
+/**
+ * Load every scenario file in a directory
+ */
+export function loadScenarios(dir: string): TestScenario[] {
+  if (!existsSync(dir)) {
+    throw new Error(`Scenario directory ${dir} does not exist`);
+  }
+
+  const files = readdirSync(dir)
+    .filter((file) => SCENARIO_EXTENSIONS.has(extname(file).toLowerCase()))
+    .sort()
+    .map((file) => join(dir, file));
+
+  const scenarios: TestScenario[] = [];
+  for (const scenario of files.flatMap(loadScenarioFile)) {
+    const duplicate = scenarios.find((s) => s.name === scenario.name);
+    if (duplicate) {
+      throw new Error(`Scenario "${scenario.name}" is defined in both ${duplicate.source} and ${scenario.source}`);
+    }
+    scenarios.push(scenario);
+  }
+  return scenarios;
+}
+
+/**
+ * Pick scenarios by name and by tag, in the order given, without duplicates
+ * Throws on unknown names and on tags no scenario has.
+ */
+export function selectScenarios(scenarios: TestScenario[], names: string[], tags: string[]): TestScenario[] {
+  const selected: TestScenario[] = [];
+  const add = (scenario: TestScenario) => {
+    if (!selected.includes(scenario)) selected.push(scenario);
+  };
+
+  for (const name of names) {
+    const scenario = scenarios.find((s) => s.name === name);
+    if (!scenario) {
+      throw new Error(`Scenario "${name}" not found. Available scenarios: ${scenarios.map((s) => s.name).join(", ")}`);
+    }
+    add(scenario);
+  }
+
+  for (const tag of tags) {
+    const tagged = scenarios.filter((s) => s.tags.includes(tag));
+    if (tagged.length === 0) {
+      const known = [...new Set(scenarios.flatMap((s) => s.tags))];
+      throw new Error(`No scenario has tag "${tag}". Known tags: ${known.join(", ") || "none"}`);
+    }
+    tagged.forEach(add);
+  }
+
+  return selected;
+}
@@ -0,0 +1,403 @@
+/**
+ * Validation of scenario file contents
+ *
+ * Every problem is reported with its path inside the file (e.g.
+ * `scenarios[2].maxPages`), and all problems of a file are reported at once.
+ */
+
+import type { CssRuleSet } from "../types/extractor.types.js";
+import type { PageCountExpectation, ScenarioCrawlerOptions, TestScenario } from "../types/scenario.types.js";
+import { checkCssRules } from "../extractors/css.js";
+import { LINK_STRATEGIES, parseUrlPattern } from "../crawlers/link-rules.js";
+import { WAIT_UNTIL_EVENTS } from "../playwright/page-load.js";
+import { BROWSER_ENGINES, parseViewport } from "../playwright/launch-profiles.js";
+import { DIRECT_CONNECTION, parseProxyTier, parseProxyUrl } from "../crawlers/proxies.js";
+import { LocalProxy, isLocalProxyUrl } from "../fixtures/proxy.js";
+
+const NAME_PATTERN = /^[a-z0-9][a-z0-9._-]*$/i;
+
+const SCENARIO_FIELDS = new Set([
+  "name",
+  "description",
+  "url",
+  "mode",
+  "urls",
+  "urlsFile",
+  "maxPages",
+  "maxDepth",
+  "timeout",
+  "iterations",
+  "warmupIterations",
+  "crawlers",
+  "concurrency",
+  "minConcurrency",
+  "autoscale",
+  "maxRequestsPerMinute",
+  "hostDelay",
+  "concurrencySweep",
+  "crawlerOptions",
+  "expectedPages",
+  "extract",
+  "cssRules",
+  "respectRobotsTxt",
+  "robotsUserAgent",
+  "sitemaps",
+  "strategy",
+  "include",
+  "exclude",
+  "stripParams",
+  "keepFragments",
+  "maxLinksPerPage",
+  "blockResources",
+  "blockUrls",
+  "waitUntil",
+  "waitForSelector",
+  "browser",
+  "launchProfile",
+  "launchArgs",
+  "headless",
+  "viewport",
+  "userAgent",
+  "locale",
+  "proxyUrls",
+  "proxyTiers",
+  "maxSessions",
+  "retireOnStatus",
+  "persistCookies",
+  "maxRetries",
+  "backoff",
+  "retryOnStatus",
+  "incremental",
+  "maxHtmlLength",
+  "tags",
+]);
+const CRAWLER_OPTION_FIELDS = new Set(["maxConcurrency", "timeout"]);
+
+type Fields = Record<string, unknown>;
+
+function describe(value: unknown): string {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "an array";
+  if (typeof value === "string") return JSON.stringify(value);
+  if (typeof value === "object") return "an object";
+  return String(value);
+}
+
+function isObject(value: unknown): value is Fields {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+class Checker {
+  readonly errors: string[] = [];
+
+  fail(path: string, message: string): void {
+    this.errors.push(`${path}: ${message}`);
+  }
+
+  string(value: unknown, path: string): string | undefined {
+    if (typeof value === "string" && value.trim() !== "") return value;
+    this.fail(path, `expected a non-empty string, got ${describe(value)}`);
+    return undefined;
+  }
+
+  integer(value: unknown, path: string, min: number): number | undefined {
+    if (typeof value === "number" && Number.isInteger(value) && value >= min) return value;
+    this.fail(path, `expected an integer >= ${min}, got ${describe(value)}`);
+    return undefined;
+  }
+
+  boolean(value: unknown, path: string): boolean | undefined {
+    if (typeof value === "boolean") return value;
+    this.fail(path, `expected true or false, got ${describe(value)}`);
+    return undefined;
+  }
+
+  stringList(value: unknown, path: string): string[] | undefined {
+    if (!Array.isArray(value)) {
+      this.fail(path, `expected a list of strings, got ${describe(value)}`);
+      return undefined;
+    }
+    const items = value.map((item, index) => this.string(item, `${path}[${index}]`));
+    return items.every((item) => item !== undefined) ? (items as string[]) : undefined;
+  }
+
+  unknownFields(object: Fields, allowed: Set<string>, path: string): void {
+    for (const key of Object.keys(object)) {
+      if (!allowed.has(key)) {
+        this.fail(`${path}.${key}`, `unknown field (allowed: ${[...allowed].join(", ")})`);
+      }
+    }
+  }
+}
+
+function checkUrl(checker: Checker, value: unknown, path: string): string | undefined {
+  const url = checker.string(value, path);
+  if (url && !/^(https?|fixture):\/\//.test(url)) {
+    checker.fail(path, `expected an http(s):// or fixture:// URL, got ${describe(url)}`);
+    return undefined;
+  }
+  return url;
+}
+
+function checkExpectedPages(checker: Checker, value: unknown, path: string): PageCountExpectation | undefined {
+  if (typeof value === "number") {
+    const count = checker.integer(value, path, 0);
+    return count === undefined ? undefined : { min: count, max: count };
+  }
+  if (!isObject(value)) {
+    checker.fail(path, `expected a page count or { min, max }, got ${describe(value)}`);
+    return undefined;
+  }
+  checker.unknownFields(value, new Set(["min", "max"]), path);
+  const min = value.min === undefined ? undefined : checker.integer(value.min, `${path}.min`, 0);
+  const max = value.max === undefined ? undefined : checker.integer(value.max, `${path}.max`, 0);
+  if (min === undefined && max === undefined) {
+    checker.fail(path, "expected at least one of min and max");
+  }
+  if (min !== undefined && max !== undefined && min > max) {
+    checker.fail(path, `min (${min}) is greater than max (${max})`);
+  }
+  return { ...(min !== undefined ? { min } : {}), ...(max !== undefined ? { max } : {}) };
+}
+
+function checkCrawlerOptions(
+  checker: Checker,
+  value: unknown,
+  path: string,
+): Record<string, ScenarioCrawlerOptions> | undefined {
+  if (!isObject(value)) {
+    checker.fail(path, `expected an object keyed by crawler name, got ${describe(value)}`);
+    return undefined;
+  }
+  const result: Record<string, ScenarioCrawlerOptions> = {};
+  for (const [crawler, options] of Object.entries(value)) {
+    const optionsPath = `${path}.${crawler}`;
+    if (!isObject(options)) {
+      checker.fail(optionsPath, `expected an object, got ${describe(options)}`);
+      continue;
+    }
+    checker.unknownFields(options, CRAWLER_OPTION_FIELDS, optionsPath);
+    result[crawler] = {
+      ...(options.maxConcurrency !== undefined
+        ? { maxConcurrency: checker.integer(options.maxConcurrency, `${optionsPath}.maxConcurrency`, 1) }
+        : {}),
+      ...(options.timeout !== undefined ? { timeout: checker.integer(options.timeout, `${optionsPath}.timeout`, 1) } : {}),
+    };
+  }
+  return result;
+}
+
+function checkViewport(checker: Checker, value: unknown, path: string): { width: number; height: number } | undefined {
+  const viewport = checker.string(value, path);
+  if (viewport === undefined) {
+    return undefined;
+  }
+  try {
+    return parseViewport(viewport);
+  } catch (error) {
+    checker.fail(path, error instanceof Error ? error.message : String(error));
+    return undefined;
+  }
+}
+
+function checkProxyUrls(checker: Checker, value: unknown, path: string): string[] | undefined {
+  const urls = checker.stringList(value, path);
+  const errorCount = checker.errors.length;
+  urls?.forEach((url, index) => {
+    try {
+      if (isLocalProxyUrl(url)) LocalProxy.fromUrl(url);
+      else if (url !== DIRECT_CONNECTION) parseProxyUrl(url);
+    } catch (error) {
+      checker.fail(`${path}[${index}]`, error instanceof Error ? error.message : String(error));
+    }
+  });
+  return checker.errors.length === errorCount ? urls : undefined;
+}
+
+function checkProxyTiers(checker: Checker, value: unknown, path: string): (string | null)[][] | undefined {
+  if (!Array.isArray(value) || value.length === 0) {
+    checker.fail(path, `expected a non-empty list of proxy URL lists, got ${describe(value)}`);
+    return undefined;
+  }
+  const tiers = value.map((tier, index) => {
+    // A null entry is a direct connection, like "direct"
+    const urls = Array.isArray(tier) ? tier.map((url) => (url === null ? DIRECT_CONNECTION : url)) : tier;
+    const checked = checkProxyUrls(checker, urls, `${path}[${index}]`);
+    return checked && parseProxyTier(checked);
+  });
+  return tiers.every((tier) => tier !== undefined) ? (tiers as (string | null)[][]) : undefined;
+}
+
+function checkStatusCodes(checker: Checker, value: unknown, path: string): number[] | undefined {
+  if (!Array.isArray(value)) {
+    checker.fail(path, `expected a list of status codes, got ${describe(value)}`);
+    return undefined;
+  }
+  const codes = value.map((code, index) => {
+    const checked = checker.integer(code, `${path}[${index}]`, 100);
+    if (checked === undefined || checked <= 599) return checked;
+    checker.fail(`${path}[${index}]`, `expected an HTTP status code, got ${checked}`);
+    return undefined;
+  });
+  return codes.every((code) => code !== undefined) ? (codes as number[]) : undefined;
+}
+
+function checkConcurrencyLevels(checker: Checker, value: unknown, path: string): number[] | undefined {
+  if (!Array.isArray(value) || value.length === 0) {
+    checker.fail(path, `expected a non-empty list of concurrency levels, got ${describe(value)}`);
+    return undefined;
+  }
+  const levels = value.map((level, index) => checker.integer(level, `${path}[${index}]`, 1));
+  return levels.every((level) => level !== undefined) ? [...new Set(levels as number[])].sort((a, b) => a - b) : undefined;
+}
+
+function checkCss(checker: Checker, value: unknown, path: string): CssRuleSet | undefined {
+  const errors = checkCssRules(value);
+  for (const error of errors) {
+    checker.fail(error.path ? `${path}.${error.path}` : path, error.message);
+  }
+  return errors.length === 0 ? (value as CssRuleSet) : undefined;
+}
+
+function checkUrlPatterns(checker: Checker, value: unknown, path: string): string[] | undefined {
+  const patterns = checker.stringList(value, path);
+  const errorCount = checker.errors.length;
+  patterns?.forEach((pattern, index) => {
+    try {
+      parseUrlPattern(pattern);
+    } catch (error) {
+      checker.fail(`${path}[${index}]`, error instanceof Error ? error.message : String(error));
+    }
+  });
+  return checker.errors.length === errorCount ? patterns : undefined;
+}
+
+function checkScenario(checker: Checker, value: unknown, path: string): TestScenario | undefined {
+  if (!isObject(value)) {
+    checker.fail(path, `expected a scenario object, got ${describe(value)}`);
+    return undefined;
+  }
+  const errorCount = checker.errors.length;
+  checker.unknownFields(value, SCENARIO_FIELDS, path);
+
+  const name = checker.string(value.name, `${path}.name`);
+  if (name && !NAME_PATTERN.test(name)) {
+    checker.fail(`${path}.name`, `may only contain letters, digits, ".", "_" and "-", got ${describe(name)}`);
+  }
+  const mode = value.mode ?? "crawl";
+  if (mode !== "crawl" && mode !== "scrap") {
+    checker.fail(`${path}.mode`, `expected "crawl" or "scrap", got ${describe(mode)}`);
+  }
+  if (value.strategy !== undefined && !LINK_STRATEGIES.includes(value.strategy as never)) {
+    checker.fail(`${path}.strategy`, `expected one of ${LINK_STRATEGIES.join(", ")}, got ${describe(value.strategy)}`);
+  }
+  if (value.browser !== undefined && !BROWSER_ENGINES.includes(value.browser as never)) {
+    checker.fail(`${path}.browser`, `expected one of ${BROWSER_ENGINES.join(", ")}, got ${describe(value.browser)}`);
+  }
+  if (value.waitUntil !== undefined && !WAIT_UNTIL_EVENTS.includes(value.waitUntil as never)) {
+    checker.fail(`${path}.waitUntil`, `expected one of ${WAIT_UNTIL_EVENTS.join(", ")}, got ${describe(value.waitUntil)}`);
+  }
+  if (
+    typeof value.minConcurrency === "number" &&
+    typeof value.concurrency === "number" &&
+    value.minConcurrency > value.concurrency
+  ) {
+    checker.fail(`${path}.minConcurrency`, `exceeds concurrency (${value.concurrency})`);
+  }
+  if (value.urls !== undefined && value.urlsFile !== undefined) {
+    checker.fail(path, "urls and urlsFile are mutually exclusive");
+  }
+
+  const optional = <T>(key: string, check: (item: unknown, itemPath: string) => T | undefined) =>
+    value[key] === undefined ? {} : { [key]: check(value[key], `${path}.${key}`) };
+
+  const scenario = {
+    name,
+    description: value.description === undefined ? "" : checker.string(value.description, `${path}.description`),
+    url: checkUrl(checker, value.url, `${path}.url`),
+    mode,
+    ...optional("urls", (item, itemPath) => checker.stringList(item, itemPath)),
+    ...optional("urlsFile", (item, itemPath) => checker.string(item, itemPath)),
+    maxPages: checker.integer(value.maxPages, `${path}.maxPages`, 1),
+    maxDepth: checker.integer(value.maxDepth, `${path}.maxDepth`, 0),
+    ...optional("timeout", (item, itemPath) => checker.integer(item, itemPath, 1)),
+    ...optional("iterations", (item, itemPath) => checker.integer(item, itemPath, 1)),
+    ...optional("warmupIterations", (item, itemPath) => checker.integer(item, itemPath, 0)),
+    ...optional("crawlers", (item, itemPath) => checker.stringList(item, itemPath)),
+    ...optional("concurrency", (item, itemPath) => checker.integer(item, itemPath, 1)),
+    ...optional("minConcurrency", (item, itemPath) => checker.integer(item, itemPath, 1)),
+    ...optional("autoscale", (item, itemPath) => checker.boolean(item, itemPath)),
+    ...optional("maxRequestsPerMinute", (item, itemPath) => checker.integer(item, itemPath, 1)),
+    ...optional("hostDelay", (item, itemPath) => checker.integer(item, itemPath, 0)),
+    ...optional("concurrencySweep", (item, itemPath) => checkConcurrencyLevels(checker, item, itemPath)),
+    ...optional("crawlerOptions", (item, itemPath) => checkCrawlerOptions(checker, item, itemPath)),
+    ...optional("expectedPages", (item, itemPath) => checkExpectedPages(checker, item, itemPath)),
+    ...optional("extract", (item, itemPath) => checker.stringList(item, itemPath)),
+    ...optional("cssRules", (item, itemPath) => checkCss(checker, item, itemPath)),
+    ...optional("respectRobotsTxt", (item, itemPath) => checker.boolean(item, itemPath)),
+    ...optional("robotsUserAgent", (item, itemPath) => checker.string(item, itemPath)),
+    ...optional("sitemaps", (item, itemPath) => checker.boolean(item, itemPath)),
+    ...(value.strategy !== undefined ? { strategy: value.strategy } : {}),
+    ...optional("include", (item, itemPath) => checkUrlPatterns(checker, item, itemPath)),
+    ...optional("exclude", (item, itemPath) => checkUrlPatterns(checker, item, itemPath)),
+    ...optional("stripParams", (item, itemPath) => checker.stringList(item, itemPath)),
+    ...optional("keepFragments", (item, itemPath) => checker.boolean(item, itemPath)),
+    ...optional("maxLinksPerPage", (item, itemPath) => checker.integer(item, itemPath, 1)),
+    ...optional("blockResources", (item, itemPath) => checker.stringList(item, itemPath)),
+    ...optional("blockUrls", (item, itemPath) => checkUrlPatterns(checker, item, itemPath)),
+    ...(value.waitUntil !== undefined ? { waitUntil: value.waitUntil } : {}),
+    ...optional("waitForSelector", (item, itemPath) => checker.string(item, itemPath)),
+    ...(value.browser !== undefined ? { browser: value.browser } : {}),
+    ...optional("launchProfile", (item, itemPath) => checker.string(item, itemPath)),
+    ...optional("launchArgs", (item, itemPath) => checker.stringList(item, itemPath)),
+    ...optional("headless", (item, itemPath) => checker.boolean(item, itemPath)),
+    ...optional("viewport", (item, itemPath) => checkViewport(checker, item, itemPath)),
+    ...optional("userAgent", (item, itemPath) => checker.string(item, itemPath)),
+    ...optional("locale", (item, itemPath) => checker.string(item, itemPath)),
+    ...optional("proxyUrls", (item, itemPath) => checkProxyUrls(checker, item, itemPath)),
+    ...optional("proxyTiers", (item, itemPath) => checkProxyTiers(checker, item, itemPath)),
+    ...optional("maxSessions", (item, itemPath) => checker.integer(item, itemPath, 1)),
+    ...optional("retireOnStatus", (item, itemPath) => checkStatusCodes(checker, item, itemPath)),
+    ...optional("persistCookies", (item, itemPath) => checker.boolean(item, itemPath)),
+    ...optional("maxRetries", (item, itemPath) => checker.integer(item, itemPath, 0)),
+    ...optional("backoff", (item, itemPath) => checker.integer(item, itemPath, 0)),
+    ...optional("retryOnStatus", (item, itemPath) => checkStatusCodes(checker, item, itemPath)),
+    ...optional("incremental", (item, itemPath) => checker.boolean(item, itemPath)),
+    ...optional("maxHtmlLength", (item, itemPath) => checker.integer(item, itemPath, 0)),
+    tags: value.tags === undefined ? [] : checker.stringList(value.tags, `${path}.tags`),
+  };
+
+  return checker.errors.length === errorCount ? (scenario as TestScenario) : undefined;
+}
+
+/**
+ * Validate parsed file contents: one scenario, a list, or `{ scenarios: [...] }`
+ * Throws one error listing every problem found.
+ */
+export function validateScenarioFile(content: unknown, source: string): TestScenario[] {
+  const checker = new Checker();
+  let entries: { value: unknown; path: string }[];
+
+  if (Array.isArray(content)) {
+    entries = content.map((value, index) => ({ value, path: `[${index}]` }));
+  } else if (isObject(content) && "scenarios" in content) {
+    checker.unknownFields(content, new Set(["scenarios"]), "$");
+    entries = Array.isArray(content.scenarios)
+      ? content.scenarios.map((value, index) => ({ value, path: `scenarios[${index}]` }))
+      : [];
+    if (!Array.isArray(content.scenarios)) {
+      checker.fail("scenarios", `expected a list of scenarios, got ${describe(content.scenarios)}`);
+    }
+  } else {
+    entries = [{ value: content, path: "$" }];
+  }
+
+  const scenarios = entries
+    .map(({ value, path }) => checkScenario(checker, value, path))
+    .filter((scenario): scenario is TestScenario => scenario !== undefined);
+
+  if (checker.errors.length > 0) {
+    throw new Error(`Invalid scenario file ${source}:\n  ${checker.errors.join("\n  ")}`);
+  }
+  return scenarios.map((scenario) => ({ ...scenario, source }));
+}
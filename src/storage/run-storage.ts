@@ -0,0 +1,131 @@
+/**
+ * Per-run isolated Crawlee storage
+ *
+ * Every crawl/scrap call gets its own storage client, dataset and request
+ * queue, so results from different runs and crawler types never mix.
+ * Kept storage also holds the crawl state needed to resume a run by its ID;
+ * the storage of a finished run is cleared, so running its ID again starts over.
+ * Items are passed on to listeners as they are pushed, for streaming results;
+ * only kept storage also writes them to the dataset.
+ */
+
+import { Configuration, Dataset, KeyValueStore, RequestQueue, type Dictionary } from "crawlee";
+import { MemoryStorage } from "@crawlee/memory-storage";
+import { randomBytes } from "crypto";
+import { resolve } from "path";
+import type { StorageOptions } from "../types/crawler.types.js";
+
+const DEFAULT_STORAGE_DIR = process.env.CRAWLEE_STORAGE_DIR || "storage";
+const STATE_KEY = "CRAWL_STATE";
+const RUN_ID_PATTERN = /^[a-zA-Z0-9][a-zA-Z0-9-]*$/;
+
+export interface RunStorage {
+  runId: string;
+  config: Configuration;
+  dataset: Dataset;
+  requestQueue: RequestQueue;
+  /** Holds the crawl state and Crawlee's request statistics of the run */
+  keyValueStore: KeyValueStore;
+  /** Directory the storage is persisted to, when kept on disk */
+  directory?: string;
+  /** The run ID's storage still held pending requests, so the run continues an earlier one */
+  resumed: boolean;
+  /** Crawl state saved by an earlier attempt of the run */
+  getState<T>(): Promise<T | null>;
+  /** Save crawl state alongside the dataset and request queue */
+  setState(state: unknown): Promise<void>;
+  /** Call `listener` with every item pushed to the dataset, once it is stored (kept storage) or instead of storing it */
+  onItem(listener: (item: Dictionary) => void): void;
+  /** Flush kept storage to disk, or drop in-memory storage */
+  close(): Promise<void>;
+}
+
+/**
+ * Create a unique run ID such as `cheerio-crawl-20240101T120000-1a2b3c`
+ */
+export function createRunId(prefix: string): string {
+  const timestamp = new Date().toISOString().replace(/[-:]/g, "").replace(/\..+$/, "");
+  return `${prefix}-${timestamp}-${randomBytes(3).toString("hex")}`;
+}
+
+/**
+ * Check that a run ID can name storage on disk
+ */
+export function checkRunId(runId: string): void {
+  if (!RUN_ID_PATTERN.test(runId)) {
+    throw new Error(`Invalid run ID "${runId}". Use letters, digits and dashes.`);
+  }
+}
+
+/**
+ * Open an isolated dataset and request queue for a single run
+ * With `options.runId`, the storage of an earlier run of that ID is reopened: an unfinished run resumes,
+ * a finished one is cleared and starts over.
+ */
+export async function openRunStorage(prefix: string, options: StorageOptions = {}): Promise<RunStorage> {
+  if (options.runId !== undefined) {
+    checkRunId(options.runId);
+  }
+  const runId = options.runId ?? createRunId(prefix);
+  const keep = Boolean(options.keep || options.runId);
+  const directory = keep ? resolve(options.directory || DEFAULT_STORAGE_DIR) : undefined;
+
+  const storageClient = new MemoryStorage({
+    localDataDirectory: directory,
+    persistStorage: keep,
+    writeMetadata: keep,
+  });
+  const config = new Configuration({
+    storageClient,
+    persistStorage: keep,
+    purgeOnStart: false,
+  });
+
+  let dataset = await Dataset.open(runId, { config });
+  let requestQueue = await RequestQueue.open(runId, { config });
+  let state = await KeyValueStore.open(runId, { config });
+  const info = await requestQueue.getInfo();
+  const pending = info?.pendingRequestCount ?? 0;
+  if ((info?.totalRequestCount ?? 0) > 0 && pending === 0) {
+    // Replaying a finished run would report its stored pages as a new crawl
+    await Promise.all([dataset.drop(), requestQueue.drop(), state.drop()]);
+    dataset = await Dataset.open(runId, { config });
+    requestQueue = await RequestQueue.open(runId, { config });
+    state = await KeyValueStore.open(runId, { config });
+  }
+
+  // Crawlers push through Crawlee's instance of the dataset, which is this one: storages are cached per configuration.
+  // Items of runs that are not kept only go to the listeners, so a crawl does not hold every page in memory.
+  const listeners: Array<(item: Dictionary) => void> = [];
+  const pushData = dataset.pushData.bind(dataset);
+  dataset.pushData = async (data) => {
+    if (keep) {
+      await pushData(data);
+    }
+    for (const item of Array.isArray(data) ? data : [data]) {
+      listeners.forEach((listener) => listener(item));
+    }
+  };
+
+  return {
+    runId,
+    config,
+    dataset,
+    requestQueue,
+    keyValueStore: state,
+    directory,
+    resumed: pending > 0,
+    getState: <T>() => state.getValue<T>(STATE_KEY),
+    setState: (value) => state.setValue(STATE_KEY, value),
+    onItem: (listener) => listeners.push(listener),
+    async close() {
+      if (keep) {
+        await storageClient.teardown();
+        return;
+      }
+      await dataset.drop();
+      await requestQueue.drop();
+      await state.drop();
+    },
+  };
+}
@@ -0,0 +1,110 @@
+/**
+ * Per-request timing breakdown shared by the crawler implementations
+ *
+ * Timestamps are carried on `request.userData` between the enqueue call,
+ * the navigation hooks and the request handler.
+ */
+
+import type { Request } from "crawlee";
+import type { Page } from "playwright";
+import type { NavigationTimings, PageTimings } from "../types/crawler.types.js";
+
+interface BrowserTiming {
+  /** Document response end, in milliseconds from navigation start */
+  fetch: number;
+  navigation: NavigationTimings;
+}
+
+// Evaluated in the page; a string so the DOM types are not needed here
+const NAVIGATION_TIMING_SCRIPT = `(() => {
+  const [entry] = performance.getEntriesByType("navigation");
+  if (!entry) return null;
+  const resourceEnds = performance.getEntriesByType("resource").map((resource) => resource.responseEnd);
+  return {
+    fetch: entry.responseEnd,
+    navigation: {
+      domContentLoaded: Math.round(entry.domContentLoadedEventEnd),
+      load: Math.round(entry.loadEventEnd),
+      networkIdle: Math.round(Math.max(entry.loadEventEnd, ...resourceEnds)),
+    },
+  };
+})()`;
+
+/**
+ * userData to attach when enqueueing a request, so queue wait can be measured
+ */
+export function enqueueTiming(): { enqueuedAt: number } {
+  return { enqueuedAt: Date.now() };
+}
+
+/**
+ * Pre-navigation hook: the request left the queue and the fetch starts
+ */
+export function markNavigationStart({ request }: { request: Request }): void {
+  request.userData.navigationStart = Date.now();
+}
+
+/**
+ * Post-navigation hook: the response (Cheerio) or loaded page (Playwright) is available
+ */
+export function markNavigationEnd({ request }: { request: Request }): void {
+  request.userData.navigationEnd = Date.now();
+}
+
+/**
+ * Post-navigation hook for Playwright: read the browser's navigation timing
+ */
+export async function captureNavigationTimings({ request, page }: { request: Request; page: Page }): Promise<void> {
+  const timing = await page.evaluate<BrowserTiming | null>(NAVIGATION_TIMING_SCRIPT).catch(() => null);
+  if (timing) {
+    request.userData.browserTiming = timing;
+  }
+}
+
+/**
+ * Measures one request from the moment its handler starts
+ */
+export class PageTimer {
+  private readonly handlerStart = Date.now();
+  private storage = 0;
+
+  constructor(private readonly request: Request) {}
+
+  /**
+   * Run a dataset write and attribute its duration to storage
+   */
+  async measureStorage<T>(write: () => Promise<T>): Promise<T> {
+    const start = Date.now();
+    try {
+      return await write();
+    } finally {
+      this.storage += Date.now() - start;
+    }
+  }
+
+  /**
+   * Compute the breakdown once the handler is done
+   * With browser timing, the fetch phase ends when the document response ended.
+   */
+  finish(): PageTimings {
+    const end = Date.now();
+    const userData = this.request.userData;
+    const browser = userData.browserTiming as BrowserTiming | undefined;
+    const navigationStart = (userData.navigationStart as number | undefined) ?? this.handlerStart;
+    const navigationEnd = (userData.navigationEnd as number | undefined) ?? navigationStart;
+    const enqueuedAt = (userData.enqueuedAt as number | undefined) ?? navigationStart;
+
+    const navigation = navigationEnd - navigationStart;
+    const fetch = browser ? Math.min(Math.round(browser.fetch), navigation) : navigation;
+
+    return {
+      queueWait: Math.max(0, navigationStart - enqueuedAt),
+      fetch,
+      parse: navigation - fetch + (this.handlerStart - navigationEnd),
+      handler: end - this.handlerStart - this.storage,
+      storage: this.storage,
+      total: end - navigationStart,
+      ...(browser?.navigation ? { navigation: browser.navigation } : {}),
+    };
+  }
+}
@@ -2,23 +2,113 @@
  * Type definitions for benchmark operations
  */
 
+import type {
+  BrowserOptions,
+  ChangeSummary,
+  CrawlFailure,
+  CrawlResult,
+  ErrorClass,
+  HtmlContentOptions,
+  LinkOptions,
+  NavigationTimings,
+  PageLoadOptions,
+  PageTimings,
+  PageTraffic,
+  ProxyOptions,
+  RetryOptions,
+  SessionOptions,
+} from "./crawler.types.js";
+import type { CssRuleSet } from "./extractor.types.js";
+import type { LocalProxyStats } from "./fixture.types.js";
+import type { PageCountExpectation, ScenarioCrawlerOptions } from "./scenario.types.js";
+
+export type { CrawlFailure, CrawlResult };
+
+export type BenchmarkMode = "crawl" | "scrap";
+
 export interface BenchmarkConfig {
+  /** Name of the scenario the run was configured from, if any */
+  scenario?: string;
   url: string;
+  /** "crawl" follows links from `url`, "scrap" fetches the fixed `urls` list */
+  mode?: BenchmarkMode;
+  /** URL list for scrap mode; relative entries resolve against `url` */
+  urls?: string[];
+  /** File the URL list was loaded from */
+  urlsFile?: string;
   maxPages?: number;
   maxDepth?: number;
   iterations?: number;
   timeout?: number;
+  /** Keep each run's isolated storage on disk instead of purging it */
+  keepStorage?: boolean;
+  /** Iterations run before the measured ones and excluded from statistics */
+  warmupIterations?: number;
+  crawlers?: string[];
+  /** Max concurrency for every crawler, unless overridden in `crawlerOptions` */
+  concurrency?: number;
+  minConcurrency?: number;
+  /** Only set when autoscaling is turned off */
+  autoscale?: boolean;
+  maxRequestsPerMinute?: number;
+  /** Minimum milliseconds between requests to the same host */
+  hostDelay?: number;
+  /** Concurrency levels every crawler is run at, each with autoscaling off */
+  concurrencySweep?: number[];
+  crawlerOptions?: Record<string, ScenarioCrawlerOptions>;
+  /** Pages each iteration should process */
+  expectedPages?: PageCountExpectation;
+  /** Extractors run on every page, by registry name */
+  extract?: string[];
+  cssRules?: CssRuleSet;
+  /** Obey robots.txt disallow rules and crawl-delay */
+  respectRobotsTxt?: boolean;
+  /** User agent robots.txt groups are matched against */
+  robotsUserAgent?: string;
+  /** Seed crawls with the site's sitemap URLs */
+  sitemaps?: boolean;
+  /** Link-following rules for crawl mode */
+  links?: LinkOptions;
+  /** Page loading of browser crawlers */
+  pageLoad?: PageLoadOptions;
+  /** Engine, launch profile and settings of browser crawlers, with defaults filled in (only when one runs) */
+  browser?: BrowserOptions;
+  /** Proxies, "local" entries standing for local forwarding proxies; credentials are removed in reports */
+  proxy?: ProxyOptions;
+  sessions?: SessionOptions;
+  retries?: RetryOptions;
+  /** Crawl each crawler's site in full first, then measure incremental recrawls against that crawl's page state */
+  incremental?: boolean;
+  /** What results keep of each page's HTML; output parity is not compared unless they keep all of it */
+  html?: HtmlContentOptions;
+  tags?: string[];
 }
 
-export interface CrawlResult {
-  url: string;
-  title: string;
-  htmlContent: string;
-  metadata: {
-    statusCode: number;
-    timestamp: string;
-    [key: string]: unknown;
-  };
+export interface ResourceSample {
+  /** Milliseconds since sampling started */
+  elapsed: number;
+  /** Resident memory of the process tree in MB */
+  rss: number;
+  /** CPU time consumed since sampling started in milliseconds */
+  cpuTime: number;
+  processes: number;
+}
+
+export interface ResourceUsage {
+  /** "procfs" covers the Node process and all descendants, "process" only Node itself */
+  source: "procfs" | "process";
+  sampleInterval: number;
+  /** Resident memory of the process tree in MB */
+  startRss: number;
+  peakRss: number;
+  meanRss: number;
+  finalRss: number;
+  /** User + system CPU time in milliseconds */
+  cpuTime: number;
+  /** Average CPU utilization (100 = one core fully busy) */
+  cpuPercent: number;
+  peakProcesses: number;
+  samples: ResourceSample[];
 }
 
 export interface BenchmarkMetrics {
@@ -27,30 +117,255 @@ export interface BenchmarkMetrics {
   duration: number;
   pagesProcessed: number;
   pagesFailed: number;
+  /** Failed pages by error class */
+  errorClasses?: Partial<Record<ErrorClass, number>>;
+  /** Retries of all requests, whether they succeeded in the end or not */
+  retries?: number;
+  /** Pages stored by earlier attempts of a resumed run; counted in `pagesProcessed`, not in `duration` */
+  resumedPages?: number;
+  /** Pages per change status (incremental benchmarks) */
+  changes?: ChangeSummary;
+  /** Response body bytes of all pages, none for pages that answered 304 (incremental benchmarks) */
+  bodyBytes?: number;
+  /** URLs never fetched (robots.txt, limits, filters, ...) */
+  pagesSkipped?: number;
+  /** Skipped URLs by reason */
+  skipped?: Record<string, number>;
+  /** robots.txt crawl-delay applied, in seconds */
+  crawlDelay?: number;
+  /** URLs seeded from sitemaps */
+  sitemapUrls?: number;
+  /** Browser requests of all pages (Playwright only) */
+  traffic?: PageTraffic;
+  /** Pages fetched through each proxy */
+  proxies?: Record<string, number>;
+  /** Traffic through each local proxy during the run, by proxy URL */
+  proxyTraffic?: Record<string, LocalProxyStats>;
+  /** Distinct sessions pages were fetched with */
+  sessions?: number;
+  /** Peak RSS increase of the process tree (including browsers) in MB */
   memoryUsed?: number;
+  resources?: ResourceUsage;
   errors: string[];
 }
 
 export interface BenchmarkResult {
-  crawlerType: "playwright" | "cheerio";
+  /** Name of the crawler in the registry (playwright, cheerio, http, ...) */
+  crawlerType: string;
   config: BenchmarkConfig;
   metrics: BenchmarkMetrics;
   results: CrawlResult[];
+  /** Requests that failed during the run */
+  failures?: CrawlFailure[];
   iteration: number;
+  /** Fixed concurrency of the run, in a concurrency sweep */
+  concurrency?: number;
+  /** Warm-up runs are reported but excluded from averages and statistics */
+  warmup?: boolean;
+  /** The full crawl of an incremental benchmark; a warm-up, as recrawls are what is measured */
+  fullCrawl?: boolean;
+  /** The run was stopped by SIGINT before it finished */
+  interrupted?: boolean;
+  /** Whether the page count matched `config.expectedPages`; unset without an expectation */
+  expectationMet?: boolean;
+}
+
+export interface MetricSummary {
+  samples: number;
+  min: number;
+  max: number;
+  mean: number;
+  median: number;
+  p90: number;
+  p95: number;
+  /** Sample standard deviation */
+  stdDev: number;
+  /** 95% confidence interval of the mean */
+  ci95: [number, number];
+}
+
+export type TimingPhase = Exclude<keyof PageTimings, "navigation">;
+
+export interface TimingStatistics {
+  /** Number of pages with timing data */
+  pages: number;
+  /** Per-page milliseconds spent in each phase */
+  phases: Record<TimingPhase, MetricSummary>;
+  /** Browser navigation timing (Playwright only) */
+  navigation?: Record<keyof NavigationTimings, MetricSummary>;
+}
+
+export interface CrawlerStatistics {
+  crawlerType: BenchmarkResult["crawlerType"];
+  iterations: number;
+  warmupIterations: number;
+  /** Milliseconds */
+  duration: MetricSummary;
+  /** MB */
+  memoryUsed: MetricSummary;
+  pagesPerSecond: MetricSummary;
+  /** Where time goes per page, across all measured iterations */
+  timings?: TimingStatistics;
+}
+
+/**
+ * Measured iterations of one crawler at one concurrency level
+ */
+export interface ConcurrencyLevel {
+  concurrency: number;
+  iterations: number;
+  /** Milliseconds */
+  duration: MetricSummary;
+  pagesPerSecond: MetricSummary;
+  /** Mean failed pages per iteration */
+  pagesFailed: number;
+}
+
+/**
+ * Throughput curve of one crawler over the levels of a concurrency sweep
+ */
+export interface ConcurrencySweep {
+  crawlerType: BenchmarkResult["crawlerType"];
+  /** In ascending order of concurrency */
+  levels: ConcurrencyLevel[];
+  /** Level with the highest mean pages per second */
+  best: number;
+}
+
+export interface SignificanceTest {
+  test: "welch-t";
+  /** Null when there are too few iterations or no variance */
+  tStatistic: number | null;
+  degreesOfFreedom: number;
+  /** Two-sided 95% critical value */
+  tCritical: number | null;
+  significant: boolean;
 }
 
-export interface ComparisonResult {
-  playwright: BenchmarkResult;
-  cheerio: BenchmarkResult;
+/**
+ * Comparison of two crawlers; A is the one listed first in the run
+ */
+export interface PairwiseComparison {
+  crawlerA: string;
+  crawlerB: string;
+  /** Duration of A divided by duration of B; above 1 means B is faster */
   speedup: number;
+  /** MB, B minus A */
   memoryDifference: number;
+  /** B minus A */
   pagesDifference: number;
+  /** Whether the duration difference behind `speedup` is statistically significant */
+  speedupSignificance: SignificanceTest;
+  /** Transferred browser bytes, B minus A; negative when B saved bytes (both browser crawlers only) */
+  bytesDifference?: number;
+  /** What the two crawlers scraped, page by page; missing when the runs dropped or truncated HTML */
+  parity?: OutputParity;
+}
+
+/**
+ * One page both crawlers returned, when their outputs differ
+ */
+export interface PageParity {
+  /** Normalized URL the pages were matched by */
+  url: string;
+  titleA: string;
+  titleB: string;
+  titleMatch: boolean;
+  /** Jaccard similarity of the visible words, 0-1 */
+  textSimilarity: number;
+  wordsA: number;
+  wordsB: number;
+  /** Distinct http(s) links on the page */
+  linksA: number;
+  linksB: number;
+  /** Whether the extractor results are equal, when both crawlers ran extractors */
+  dataMatch?: boolean;
+  /** Crawler whose copy lacks text or links the other has */
+  missingContent?: string;
+  /** The lacking copy has scripts, so the missing content is probably rendered with JavaScript */
+  likelyJsRendered?: boolean;
+}
+
+/**
+ * Output comparison of two crawlers over all pages of their measured iterations
+ */
+export interface OutputParity {
+  /** Pages both crawlers returned */
+  matched: number;
+  /** Normalized URLs only crawler A / B returned */
+  onlyA: string[];
+  onlyB: string[];
+  titleMismatches: number;
+  meanTextSimilarity: number;
+  minTextSimilarity: number;
+  /** Total distinct links over matched pages, B minus A */
+  linkCountDifference: number;
+  dataMismatches: number;
+  /** Matched pages where one crawler missed content */
+  missingContent: number;
+  /** Of those, pages where the content is probably rendered with JavaScript */
+  likelyJsRendered: number;
+  /** Similarity below which a page counts as different */
+  similarityThreshold: number;
+  /** Same pages, titles and extracted data, no missing content and mean similarity at or above the threshold */
+  equivalent: boolean;
+  /** Matched pages that differ in any way */
+  pages: PageParity[];
+}
+
+export interface ComparisonMatrix {
+  crawlers: string[];
+  /** One result per crawler with metrics averaged over its measured iterations */
+  averages: BenchmarkResult[];
+  /** Every pair of crawlers, in run order */
+  pairs: PairwiseComparison[];
+  /** Crawler with the lowest average duration */
+  fastest: string;
+}
+
+/**
+ * Versions the run was measured with, to explain changes between stored reports
+ */
+export interface BenchmarkEnvironment {
+  node: string;
+  crawlee?: string;
+  playwright?: string;
+  platform: string;
+}
+
+/**
+ * What incremental recrawls of one crawler saved over its full crawl
+ */
+export interface IncrementalSavings {
+  crawlerType: BenchmarkResult["crawlerType"];
+  /** Milliseconds of the full crawl */
+  fullDuration: number;
+  /** Mean milliseconds of the measured recrawls */
+  duration: number;
+  /** Share of the full crawl's duration saved, in percent */
+  durationSaved: number;
+  /** Response body bytes of the full crawl */
+  fullBytes: number;
+  /** Mean response body bytes of the measured recrawls */
+  bytes: number;
+  /** Share of the full crawl's bytes saved, in percent */
+  bytesSaved: number;
+  /** Mean pages per change status over the measured recrawls */
+  changes: ChangeSummary;
 }
 
 export interface BenchmarkReport {
   timestamp: string;
   config: BenchmarkConfig;
+  environment?: BenchmarkEnvironment;
   results: BenchmarkResult[];
-  comparison?: ComparisonResult;
+  /** Per-crawler statistics over measured (non warm-up) iterations */
+  statistics: CrawlerStatistics[];
+  /** Present when at least two crawlers have measured iterations */
+  comparison?: ComparisonMatrix;
+  /** Throughput per concurrency level; with a sweep, `statistics` and `comparison` cover the highest level only */
+  sweep?: ConcurrencySweep[];
+  /** Savings of incremental recrawls per crawler, in incremental benchmarks */
+  incremental?: IncrementalSavings[];
 }
 
@@ -0,0 +1,81 @@
+/**
+ * Type definitions for the structured data extraction pipeline
+ */
+
+import type { CheerioAPI } from "cheerio";
+
+/**
+ * What an extractor gets to work with for one page
+ */
+export interface ExtractionContext {
+  /** URL of the page, after redirects; base for relative links */
+  url: string;
+  /**
+   * The page's HTML as the crawler saw it (rendered DOM for browsers), parsed with Cheerio
+   * Cheerio-based backends pass their own document, which link discovery uses afterwards: read it, don't modify it.
+   */
+  $: CheerioAPI;
+}
+
+export interface Extractor<T = unknown> {
+  /** Name used with `--extract` and key of the result in `CrawlResult.data` */
+  name: string;
+  extract(context: ExtractionContext): T | Promise<T>;
+}
+
+/**
+ * A CSS selector rule; a plain string is the selector of a single text value
+ */
+export interface CssRule {
+  selector: string;
+  /** Attribute to read instead of the text content */
+  attribute?: string;
+  /** Return every match instead of the first */
+  multiple?: boolean;
+}
+
+/** Rules keyed by the name of the extracted value */
+export type CssRuleSet = Record<string, string | CssRule>;
+
+/** Extracted values by rule name; null when the selector matched nothing */
+export type CssValues = Record<string, string | string[] | null>;
+
+export interface MicrodataItem {
+  /** `itemtype` URLs */
+  type: string[];
+  id?: string;
+  properties: Record<string, (string | MicrodataItem)[]>;
+}
+
+export interface ReadableText {
+  text: string;
+  wordCount: number;
+  /** Element the text was taken from, e.g. `article` or `body` */
+  source: string;
+}
+
+export interface PageLink {
+  /** Absolute URL without fragment */
+  url: string;
+  text: string;
+  rel?: string;
+  /** Same host as the page */
+  internal: boolean;
+}
+
+/**
+ * Extractor results of one page, keyed by extractor name
+ */
+export interface PageData {
+  css?: CssValues;
+  /** Parsed JSON-LD blocks, with arrays and `@graph` flattened */
+  jsonLd?: unknown[];
+  /** Top-level microdata items */
+  microdata?: MicrodataItem[];
+  /** `og:*` meta properties without the prefix, e.g. `title` or `image:width` */
+  openGraph?: Record<string, string>;
+  text?: ReadableText;
+  links?: PageLink[];
+  /** Results of extractors registered from outside */
+  [extractor: string]: unknown;
+}
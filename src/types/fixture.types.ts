@@ -0,0 +1,65 @@
+/**
+ * Type definitions for the local fixture website server
+ */
+
+export type FixtureLinkGraph = "tree" | "chain" | "mesh";
+
+export interface FixtureSiteOptions {
+  /** Total number of pages in the site */
+  pages: number;
+  /** Number of outgoing links per page */
+  links: number;
+  /** Maximum link depth (the start page is depth 0) */
+  depth: number;
+  graph: FixtureLinkGraph;
+  /** Approximate HTML size of each page in bytes */
+  pageSize: number;
+  /** Latency added before every response in milliseconds */
+  latency: number;
+  /** Render page content client-side with JavaScript */
+  js: boolean;
+  /** Describe each page as a product with JSON-LD, microdata and OpenGraph (static pages only) */
+  structured: boolean;
+  /** Decorate links with per-page `utm_*` parameters and a fragment, as on sites with click tracking */
+  tracking: boolean;
+  /** Load a stylesheet, a web font and a per-page image on every page */
+  assets: boolean;
+  /** robots.txt Disallow path prefixes for all user agents */
+  disallow: string[];
+  /** robots.txt Crawl-delay in seconds (0 for none) */
+  crawlDelay: number;
+  /** Serve a sitemap index at /sitemap.xml listing every page, referenced from robots.txt */
+  sitemap: boolean;
+  /** Seed for the pseudo-random parts of the link graph */
+  seed: number;
+  /** Every n-th page (not the start page) answers with `failStatus` (0 for none) */
+  failEvery: number;
+  failStatus: number;
+  /** Requests each failing page fails before it loads (0: it always fails) */
+  failTimes: number;
+  /** Content revision of every fifth page; raising it changes those pages and their Last-Modified date */
+  revision: number;
+}
+
+export interface FixtureSite {
+  name: string;
+  options: FixtureSiteOptions;
+}
+
+export interface FixturePage {
+  index: number;
+  depth: number;
+  links: number[];
+}
+
+/**
+ * Traffic through a local forwarding proxy
+ */
+export interface LocalProxyStats {
+  /** Forwarded HTTP requests */
+  requests: number;
+  /** CONNECT tunnels opened */
+  tunnels: number;
+  /** Bytes sent back to clients */
+  bytes: number;
+}
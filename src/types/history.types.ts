@@ -0,0 +1,63 @@
+/**
+ * Type definitions for comparing stored benchmark reports
+ */
+
+import type { BenchmarkEnvironment, SignificanceTest } from "./benchmark.types.js";
+
+export type ComparedMetric = "duration" | "memoryUsed" | "pagesPerSecond" | "pagesFailed";
+
+/**
+ * How much worse a metric may get before it counts as a regression
+ */
+export interface RegressionThresholds {
+  /** Percent increase of the mean duration */
+  duration: number;
+  /** Percent increase of the mean memory delta */
+  memoryUsed: number;
+  /** Percent decrease of the mean pages per second */
+  pagesPerSecond: number;
+  /** Absolute increase of the average failed pages per iteration */
+  pagesFailed: number;
+  /** Only flag duration, memory and throughput changes that pass Welch's t-test */
+  requireSignificance: boolean;
+}
+
+/**
+ * A report read from disk
+ */
+export interface StoredReportRef {
+  path: string;
+  timestamp: string;
+  environment?: BenchmarkEnvironment;
+}
+
+export interface MetricDelta {
+  metric: ComparedMetric;
+  baseline: number;
+  candidate: number;
+  /** Candidate minus baseline */
+  change: number;
+  /** Relative change in percent; null when the baseline is 0 */
+  changePercent: number | null;
+  /** Null for metrics without per-iteration samples */
+  significance: SignificanceTest | null;
+  regression: boolean;
+}
+
+export interface CrawlerDelta {
+  /** Scenario name, or mode and URL for runs without a scenario */
+  scenario: string;
+  crawlerType: string;
+  baseline: StoredReportRef;
+  candidate: StoredReportRef;
+  metrics: MetricDelta[];
+  regression: boolean;
+}
+
+export interface HistoryComparison {
+  thresholds: RegressionThresholds;
+  deltas: CrawlerDelta[];
+  /** Scenario/crawler pairs of the candidates without a matching baseline */
+  unmatched: string[];
+  regressions: number;
+}
@@ -0,0 +1,110 @@
+/**
+ * Type definitions for declarative benchmark scenarios
+ */
+
+import type { BenchmarkMode } from "./benchmark.types.js";
+import type { BrowserEngine, CrawlerOptions, LinkStrategy, WaitUntil } from "./crawler.types.js";
+import type { CssRuleSet } from "./extractor.types.js";
+
+/**
+ * Accepted number of pages per iteration; a plain number in a scenario file means exactly that many
+ */
+export interface PageCountExpectation {
+  min?: number;
+  max?: number;
+}
+
+/**
+ * Options a scenario can set per crawler, on top of its shared ones
+ */
+export type ScenarioCrawlerOptions = Pick<CrawlerOptions, "maxConcurrency" | "timeout">;
+
+export interface TestScenario {
+  name: string;
+  description: string;
+  url: string;
+  mode?: BenchmarkMode;
+  /** URL list for scrap mode; relative entries resolve against `url` */
+  urls?: string[];
+  /** URL list file for scrap mode, relative to the scenario file */
+  urlsFile?: string;
+  maxPages: number;
+  maxDepth: number;
+  timeout?: number;
+  iterations?: number;
+  warmupIterations?: number;
+  /** Crawlers to run; defaults to the --crawler option */
+  crawlers?: string[];
+  /** Max concurrency for every crawler */
+  concurrency?: number;
+  minConcurrency?: number;
+  /** Scale concurrency with system load (default: true) */
+  autoscale?: boolean;
+  maxRequestsPerMinute?: number;
+  /** Minimum milliseconds between requests to the same host */
+  hostDelay?: number;
+  /** Run every crawler at each of these fixed concurrency levels */
+  concurrencySweep?: number[];
+  /** Per-crawler overrides, keyed by registry name */
+  crawlerOptions?: Record<string, ScenarioCrawlerOptions>;
+  expectedPages?: PageCountExpectation;
+  /** Registered extractors to run on every page */
+  extract?: string[];
+  /** CSS rules for the `css` extractor */
+  cssRules?: CssRuleSet;
+  /** Obey robots.txt disallow rules and crawl-delay */
+  respectRobotsTxt?: boolean;
+  /** User agent robots.txt groups are matched against */
+  robotsUserAgent?: string;
+  /** Seed the crawl with the site's sitemap URLs */
+  sitemaps?: boolean;
+  /** Which links to follow (default: "same-domain") */
+  strategy?: LinkStrategy;
+  /** Only follow links matching one of these globs or `/regex/flags` patterns */
+  include?: string[];
+  /** Never follow links matching one of these globs or `/regex/flags` patterns */
+  exclude?: string[];
+  /** Query parameters removed from links; "tracking" for common tracking parameters */
+  stripParams?: string[];
+  /** Treat URLs that differ only in the fragment as different pages */
+  keepFragments?: boolean;
+  maxLinksPerPage?: number;
+  /** Resource types browser crawlers abort, e.g. ["image", "font"] */
+  blockResources?: string[];
+  /** Requests browser crawlers abort, as globs or `/regex/flags` patterns */
+  blockUrls?: string[];
+  /** Event browser navigation waits for (default: "load") */
+  waitUntil?: WaitUntil;
+  /** CSS selector browser crawlers wait for after navigation */
+  waitForSelector?: string;
+  /** Browser engine of browser crawlers */
+  browser?: BrowserEngine;
+  launchProfile?: string;
+  /** Browser arguments added to the launch profile's */
+  launchArgs?: string[];
+  headless?: boolean;
+  viewport?: { width: number; height: number };
+  userAgent?: string;
+  locale?: string;
+  /** Proxy URLs to rotate; "local" or "local?latency=<ms>" for a local forwarding proxy */
+  proxyUrls?: string[];
+  /** Proxy tiers, `null` standing for a direct connection */
+  proxyTiers?: (string | null)[][];
+  maxSessions?: number;
+  /** Status codes that retire a session */
+  retireOnStatus?: number[];
+  persistCookies?: boolean;
+  /** Retries per request after the first attempt */
+  maxRetries?: number;
+  /** Milliseconds before the first retry, doubled for every further one */
+  backoff?: number;
+  /** Status codes that fail a page so it is retried */
+  retryOnStatus?: number[];
+  /** Measure incremental recrawls against a full crawl */
+  incremental?: boolean;
+  /** Characters of each page's HTML kept in results; 0 keeps none */
+  maxHtmlLength?: number;
+  tags: string[];
+  /** File the scenario was loaded from */
+  source?: string;
+}